@@ -3,6 +3,10 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { CartProvider } from "@/hooks/use-cart";
+import RequireAuth from "@/components/RequireAuth";
+import RequireRole from "@/components/RequireRole";
+import RoleShell from "@/components/RoleShell";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Knowledge from "./pages/Knowledge";
@@ -10,42 +14,87 @@ import CultivarDetail from "./pages/CultivarDetail";
 import Market from "./pages/Market";
 import Dashboard from "./pages/Dashboard";
 import ProductDetail from "./pages/ProductDetail";
+import ReserveProduct from "./pages/ReserveProduct";
+import Cart from "./pages/Cart";
+import Payment from "./pages/Payment";
 import UpdateProfile from "./pages/UpdateProfile";
+import Addresses from "./pages/Addresses";
+import Orders from "./pages/Orders";
+import BuyerOrderDetail from "./pages/BuyerOrderDetail";
+import FarmApplication from "./pages/FarmApplication";
 import FarmDashboard from "./pages/farm/FarmDashboard";
 import AddProduct from "./pages/farm/AddProduct";
+import EditProduct from "./pages/farm/EditProduct";
 import ManageProducts from "./pages/farm/ManageProducts";
 import FarmOrders from "./pages/farm/FarmOrders";
 import OrderDetail from "./pages/farm/OrderDetail";
+import AdminConsole from "./pages/admin/AdminConsole";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      retry: 2,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth/login" element={<Auth />} />
-          <Route path="/knowledge" element={<Knowledge />} />
-          <Route path="/knowledge/:slug" element={<CultivarDetail />} />
-          <Route path="/market" element={<Market />} />
-          <Route path="/market/product/:id" element={<ProductDetail />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/profile" element={<UpdateProfile />} />
-          {/* Farm routes */}
-          <Route path="/farm" element={<FarmDashboard />} />
-          <Route path="/farm/products" element={<ManageProducts />} />
-          <Route path="/farm/products/add" element={<AddProduct />} />
-          <Route path="/farm/orders" element={<FarmOrders />} />
-          <Route path="/farm/orders/:id" element={<OrderDetail />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <CartProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth/login" element={<Auth />} />
+            <Route path="/knowledge" element={<Knowledge />} />
+            <Route path="/knowledge/:slug" element={<CultivarDetail />} />
+            <Route path="/market" element={<Market />} />
+            <Route path="/market/product/:id" element={<ProductDetail />} />
+            <Route path="/market/cart" element={<Cart />} />
+            {/* Buyer routes */}
+            <Route element={<RequireAuth />}>
+              <Route path="/market/reserve/:id" element={<ReserveProduct />} />
+              <Route path="/market/checkout/:checkoutId/payment" element={<Payment />} />
+              <Route path="/farm/apply" element={<FarmApplication />} />
+              <Route element={<RoleShell role="buyer" />}>
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/orders" element={<Orders />} />
+                <Route path="/orders/:id" element={<BuyerOrderDetail />} />
+                <Route path="/profile" element={<UpdateProfile />} />
+                <Route path="/addresses" element={<Addresses />} />
+              </Route>
+            </Route>
+            {/* Farm routes */}
+            <Route element={<RequireRole role="farm" redirectTo="/farm/apply" />}>
+              <Route element={<RoleShell role="farm" />}>
+                <Route path="/farm" element={<FarmDashboard />} />
+                <Route path="/farm/products" element={<ManageProducts />} />
+                <Route path="/farm/products/add" element={<AddProduct />} />
+                <Route path="/farm/products/:id/edit" element={<EditProduct />} />
+                <Route path="/farm/orders" element={<FarmOrders />} />
+                <Route path="/farm/orders/:id" element={<OrderDetail />} />
+              </Route>
+            </Route>
+            {/* Admin routes */}
+            <Route
+              element={
+                <RequireRole role="admin" deniedMessage="You do not have access to the admin console" />
+              }
+            >
+              <Route element={<RoleShell role="admin" />}>
+                <Route path="/admin" element={<AdminConsole />} />
+              </Route>
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </CartProvider>
   </QueryClientProvider>
 );
 
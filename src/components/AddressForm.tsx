@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import LocationFields from "@/components/LocationFields";
+import type { AddressFields } from "@/hooks/use-addresses";
+import { isValidPhone, normalizePhone } from "@/lib/addresses";
+import { isValidPostcode, resolveCoordinates, type AddressLocation } from "@/lib/geocoding";
+
+interface AddressFormProps {
+  /** Address being edited; omitted when adding one. */
+  address?: AddressFields;
+  /** Prefilled recipient for new addresses, usually the user's own name. */
+  defaultRecipient?: string;
+  submitting: boolean;
+  submitLabel: string;
+  onSubmit: (fields: AddressFields) => void;
+  onCancel: () => void;
+}
+
+const AddressForm = ({
+  address,
+  defaultRecipient = "",
+  submitting,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: AddressFormProps) => {
+  const [resolving, setResolving] = useState(false);
+  const [formData, setFormData] = useState({
+    label: address?.label ?? "Home",
+    recipient_name: address?.recipient_name ?? defaultRecipient,
+    phone: address?.phone ?? "",
+    address_line: address?.address_line ?? "",
+    is_default: address?.is_default ?? false,
+  });
+  const [location, setLocation] = useState<AddressLocation>({
+    subdistrict: address?.subdistrict ?? "",
+    district: address?.district ?? "",
+    province_code: address?.province_code ?? "",
+    postcode: address?.postcode ?? "",
+    latitude: address?.latitude ?? null,
+    longitude: address?.longitude ?? null,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Rendered in a dialog over checkout forms; keep the submit from reaching them
+    e.stopPropagation();
+
+    const phone = normalizePhone(formData.phone);
+
+    if (!formData.recipient_name.trim() || !formData.address_line.trim()) {
+      toast.error("Recipient and address are required");
+      return;
+    }
+
+    if (!isValidPhone(phone)) {
+      toast.error("Phone must be a Thai number, e.g. 0812345678");
+      return;
+    }
+
+    if (!location.province_code || !location.district.trim() || !location.subdistrict.trim()) {
+      toast.error("Province, district and subdistrict are required");
+      return;
+    }
+
+    if (!isValidPostcode(location.postcode)) {
+      toast.error("Postcode must be 5 digits");
+      return;
+    }
+
+    setResolving(true);
+    const resolved = await resolveCoordinates(location);
+    setResolving(false);
+
+    onSubmit({
+      label: formData.label.trim() || "Home",
+      recipient_name: formData.recipient_name.trim(),
+      phone,
+      address_line: formData.address_line.trim(),
+      is_default: formData.is_default,
+      subdistrict: resolved.subdistrict.trim(),
+      district: resolved.district.trim(),
+      province_code: resolved.province_code,
+      postcode: resolved.postcode,
+      latitude: resolved.latitude,
+      longitude: resolved.longitude,
+      // Everything has been checked above, which completes a carried-over address
+      needs_review: false,
+    });
+  };
+
+  const busy = submitting || resolving;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="recipient_name">Recipient *</Label>
+          <Input
+            id="recipient_name"
+            value={formData.recipient_name}
+            onChange={(e) => setFormData({ ...formData, recipient_name: e.target.value })}
+            placeholder="Full name"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="phone">Phone *</Label>
+          <Input
+            id="phone"
+            type="tel"
+            value={formData.phone}
+            onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+            placeholder="0812345678"
+            required
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="address_line">Address *</Label>
+        <Textarea
+          id="address_line"
+          value={formData.address_line}
+          onChange={(e) => setFormData({ ...formData, address_line: e.target.value })}
+          placeholder="House number, village, soi, road"
+          rows={2}
+          required
+        />
+      </div>
+
+      <LocationFields id="address" value={location} onChange={setLocation} disabled={busy} />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="label">Label</Label>
+          <Input
+            id="label"
+            value={formData.label}
+            onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+            placeholder="Home, Office..."
+          />
+        </div>
+
+        <div className="flex items-center gap-2 pb-2">
+          <Switch
+            id="is_default"
+            checked={formData.is_default}
+            onCheckedChange={(checked) => setFormData({ ...formData, is_default: checked })}
+            // Another address becomes the default by switching it on there
+            disabled={address?.is_default}
+          />
+          <Label htmlFor="is_default">Default delivery address</Label>
+        </div>
+      </div>
+
+      <div className="flex gap-4 pt-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" className="flex-1" disabled={busy}>
+          {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AddressForm;
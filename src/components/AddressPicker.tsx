@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Loader2, Plus } from "lucide-react";
+import AddressForm from "@/components/AddressForm";
+import { useAddresses, useSaveAddress, type AddressFields } from "@/hooks/use-addresses";
+import { formatAddress } from "@/lib/addresses";
+
+interface AddressPickerProps {
+  userId: string;
+  /** Recipient prefilled when the buyer adds an address here. */
+  defaultRecipient?: string;
+  value: string | null;
+  onChange: (addressId: string) => void;
+}
+
+/** Chooses a saved delivery address at checkout, with a shortcut to add one. */
+const AddressPicker = ({ userId, defaultRecipient, value, onChange }: AddressPickerProps) => {
+  const { data: addresses = [], isLoading } = useAddresses(userId);
+  const saveAddress = useSaveAddress(userId);
+  const [adding, setAdding] = useState(false);
+
+  // Preselect the default address once the book has loaded, skipping ones that need completing
+  useEffect(() => {
+    const usable = addresses.find((address) => !address.needs_review);
+    if (!value && usable) onChange(usable.id);
+  }, [addresses, value]);
+
+  const handleAdd = async (fields: AddressFields) => {
+    try {
+      const address = await saveAddress.mutateAsync({ fields });
+      onChange(address.id);
+      setAdding(false);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save address";
+      toast.error(message);
+    }
+  };
+
+  if (isLoading) {
+    return <Loader2 className="w-5 h-5 animate-spin text-primary" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {addresses.length > 0 ? (
+        <RadioGroup value={value ?? undefined} onValueChange={onChange} className="space-y-2">
+          {addresses.map((address) => (
+            <Label
+              key={address.id}
+              htmlFor={`address-${address.id}`}
+              className="flex items-start gap-3 p-4 border border-border rounded-lg cursor-pointer font-normal has-[:checked]:border-primary has-[:disabled]:cursor-not-allowed has-[:disabled]:opacity-60"
+            >
+              <RadioGroupItem
+                value={address.id}
+                id={`address-${address.id}`}
+                className="mt-1"
+                disabled={address.needs_review}
+              />
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {address.recipient_name} · {address.phone}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {address.label}
+                    {address.is_default && " (default)"}
+                  </span>
+                </p>
+                <p className="text-sm text-muted-foreground">{formatAddress(address)}</p>
+                {address.needs_review && (
+                  <p className="text-xs text-destructive">Incomplete. Finish it in your address book to use it.</p>
+                )}
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+      ) : (
+        <p className="text-sm text-muted-foreground">You have no saved addresses yet.</p>
+      )}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => setAdding(true)}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Address
+      </Button>
+
+      <Dialog open={adding} onOpenChange={setAdding}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Address</DialogTitle>
+            <DialogDescription>It will be saved to your address book.</DialogDescription>
+          </DialogHeader>
+          <AddressForm
+            defaultRecipient={defaultRecipient}
+            submitting={saveAddress.isPending}
+            submitLabel="Save Address"
+            onSubmit={handleAdd}
+            onCancel={() => setAdding(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AddressPicker;
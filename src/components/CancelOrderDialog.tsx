@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { formatCancelReason } from "@/lib/cancellation";
+
+const OTHER_REASON = "other";
+
+interface CancelOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  /** Preset reasons offered before "Other". */
+  reasons: string[];
+  confirmLabel: string;
+  submitting: boolean;
+  onConfirm: (reason: string) => void;
+}
+
+/** Asks why an order is being cancelled or rejected: a preset reason, free text, or both. */
+const CancelOrderDialog = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  reasons,
+  confirmLabel,
+  submitting,
+  onConfirm,
+}: CancelOrderDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState("");
+
+  // Start over each time the dialog closes, including when the caller closes it after confirming
+  useEffect(() => {
+    if (!open) {
+      setReason("");
+      setDetails("");
+    }
+  }, [open]);
+
+  const handleConfirm = () => {
+    if (!reason) {
+      toast.error("Please choose a reason");
+      return;
+    }
+
+    if (reason === OTHER_REASON && !details.trim()) {
+      toast.error("Please describe the reason");
+      return;
+    }
+
+    onConfirm(formatCancelReason(reason === OTHER_REASON ? "" : reason, details));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={setReason} className="space-y-2">
+            {[...reasons, OTHER_REASON].map((value) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`cancel-reason-${value}`} />
+                <Label htmlFor={`cancel-reason-${value}`} className="font-normal">
+                  {value === OTHER_REASON ? "Other" : value}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="cancel_details">
+              {reason === OTHER_REASON ? "Reason *" : "Details"}
+            </Label>
+            <Textarea
+              id="cancel_details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything the other party should know"
+              rows={3}
+              maxLength={300}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Back
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={submitting}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelOrderDialog;
@@ -0,0 +1,51 @@
+import { Clock } from "lucide-react";
+import type { OrderDeadline } from "@/hooks/use-orders";
+
+const HOUR = 60 * 60 * 1000;
+
+const actionLabels: Record<OrderDeadline["kind"], string> = {
+  farm_confirm: "Confirm",
+  pickup_window: "Ship",
+};
+
+function formatRemaining(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${Math.max(minutes, 1)}m`;
+}
+
+interface DeadlineBadgeProps {
+  deadline: OrderDeadline;
+  /** Current time in ms, ticked by the caller so a list of badges updates together. */
+  now: number;
+}
+
+/** Time left before the scheduler auto-cancels an order, coloured by urgency. */
+const DeadlineBadge = ({ deadline, now }: DeadlineBadgeProps) => {
+  const remaining = new Date(deadline.deadline).getTime() - now;
+
+  const color =
+    remaining < 6 * HOUR
+      ? "bg-red-100 text-red-800"
+      : remaining < 24 * HOUR
+        ? "bg-yellow-100 text-yellow-800"
+        : "bg-gray-100 text-gray-800";
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs whitespace-nowrap ${color}`}
+      title={`Auto-cancels ${new Date(deadline.deadline).toLocaleString()}`}
+    >
+      <Clock className="w-3 h-3" />
+      {remaining > 0
+        ? `${actionLabels[deadline.kind]} in ${formatRemaining(remaining)}`
+        : "Cancelling soon"}
+    </span>
+  );
+};
+
+export default DeadlineBadge;
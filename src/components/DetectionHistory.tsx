@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { formatDefect, getRipenessColor, ripenessLabels, type RipenessStage } from "@/lib/detection";
+import { Sparkles } from "lucide-react";
+
+interface DetectionRun {
+  id: string;
+  image_path: string;
+  confidence: number;
+  ripeness_stage: RipenessStage;
+  defects: string[];
+  quality: string;
+  created_at: string | null;
+  cultivars: {
+    name: string;
+    slug: string;
+  } | null;
+}
+
+interface DetectionHistoryProps {
+  userId: string;
+  limit?: number;
+}
+
+const DetectionHistory = ({ userId, limit = 10 }: DetectionHistoryProps) => {
+  const navigate = useNavigate();
+  const [runs, setRuns] = useState<DetectionRun[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadRuns();
+  }, [userId]);
+
+  const loadRuns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("detection_runs")
+        .select("id, image_path, confidence, ripeness_stage, defects, quality, created_at, cultivars (name, slug)")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      setRuns(data || []);
+
+      if (data && data.length > 0) {
+        // Detection images live in a private bucket
+        const { data: signed } = await supabase.storage
+          .from("detection-images")
+          .createSignedUrls(data.map((r) => r.image_path), 60 * 60);
+
+        setImageUrls(
+          Object.fromEntries(
+            (signed || []).filter((s) => s.signedUrl).map((s) => [s.path as string, s.signedUrl])
+          )
+        );
+      }
+    } catch (error) {
+      console.error("Failed to load detection history:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) return null;
+
+  if (runs.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Sparkles className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+        <p className="text-muted-foreground mb-4">No detections yet</p>
+        <Button variant="outline" onClick={() => navigate("/")}>
+          Identify a Banana
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {runs.map((run) => (
+        <div key={run.id} className="flex items-center gap-4 p-3 bg-muted/50 rounded-lg">
+          {imageUrls[run.image_path] ? (
+            <img
+              src={imageUrls[run.image_path]}
+              alt={run.cultivars?.name || "Detection"}
+              className="w-16 h-16 object-cover rounded"
+            />
+          ) : (
+            <div className="w-16 h-16 bg-muted rounded flex items-center justify-center">
+              <span className="text-3xl">🍌</span>
+            </div>
+          )}
+          <div className="flex-1">
+            <p
+              className="font-medium cursor-pointer hover:underline"
+              onClick={() => run.cultivars && navigate(`/knowledge/${run.cultivars.slug}`)}
+            >
+              {run.cultivars?.name || "Unknown cultivar"}
+              <span className="text-sm text-muted-foreground font-normal ml-2">
+                {(run.confidence * 100).toFixed(0)}%
+              </span>
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {run.quality}
+              {run.defects.length > 0 && ` · ${run.defects.map(formatDefect).join(", ")}`}
+            </p>
+            {run.created_at && (
+              <p className="text-xs text-muted-foreground">
+                {new Date(run.created_at).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <span className={`px-3 py-1 rounded-full text-xs ${getRipenessColor(run.ripeness_stage)}`}>
+            {ripenessLabels[run.ripeness_stage]}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DetectionHistory;
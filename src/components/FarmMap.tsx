@@ -0,0 +1,101 @@
+import type { GeoPoint } from "@/lib/geocoding";
+import { THAI_PROVINCES } from "@/lib/thai-provinces";
+import { cn } from "@/lib/utils";
+
+export interface FarmMarker extends GeoPoint {
+  id: string;
+  name: string;
+  listingCount: number;
+}
+
+interface FarmMapProps {
+  farms: FarmMarker[];
+  origin?: GeoPoint | null;
+  radiusKm?: number | null;
+  selectedId?: string | null;
+  onSelect?: (farmId: string) => void;
+  className?: string;
+}
+
+// Thailand's bounding box, drawn with a plain equirectangular projection.
+// Longitude is shortened by cos(13°) so the country keeps its proportions.
+const BOUNDS = { north: 20.6, south: 5.5, west: 97.2, east: 105.8 };
+const SCALE = 40;
+const LNG_FACTOR = Math.cos((13 * Math.PI) / 180);
+const KM_PER_DEGREE = 111.32;
+
+const WIDTH = (BOUNDS.east - BOUNDS.west) * LNG_FACTOR * SCALE;
+const HEIGHT = (BOUNDS.north - BOUNDS.south) * SCALE;
+
+const project = ({ latitude, longitude }: GeoPoint) => ({
+  x: (longitude - BOUNDS.west) * LNG_FACTOR * SCALE,
+  y: (BOUNDS.north - latitude) * SCALE,
+});
+
+/**
+ * Farm locations over an outline of Thailand sketched from province centres.
+ * Drawn as SVG so the map needs no tile server.
+ */
+const FarmMap = ({ farms, origin, radiusKm, selectedId, onSelect, className }: FarmMapProps) => {
+  const originPoint = origin ? project(origin) : null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={cn("w-full h-auto bg-muted/40 rounded-lg", className)}
+      role="img"
+      aria-label="Map of farms"
+    >
+      {THAI_PROVINCES.map((province) => {
+        const { x, y } = project(province);
+        return (
+          <circle key={province.code} cx={x} cy={y} r={9} className="fill-muted-foreground opacity-10">
+            <title>{province.name}</title>
+          </circle>
+        );
+      })}
+
+      {originPoint && radiusKm && (
+        <circle
+          cx={originPoint.x}
+          cy={originPoint.y}
+          r={(radiusKm / KM_PER_DEGREE) * SCALE}
+          className="fill-blue-500/10 stroke-blue-500"
+          strokeWidth={1}
+          strokeDasharray="4 3"
+        />
+      )}
+
+      {farms.map((farm) => {
+        const { x, y } = project(farm);
+        const selected = farm.id === selectedId;
+        return (
+          <circle
+            key={farm.id}
+            cx={x}
+            cy={y}
+            r={selected ? 8 : 6}
+            className={cn(
+              "fill-primary stroke-background cursor-pointer transition-all",
+              selected && "stroke-foreground"
+            )}
+            strokeWidth={2}
+            onClick={() => onSelect?.(farm.id)}
+          >
+            <title>
+              {farm.name} · {farm.listingCount} listing{farm.listingCount === 1 ? "" : "s"}
+            </title>
+          </circle>
+        );
+      })}
+
+      {originPoint && (
+        <circle cx={originPoint.x} cy={originPoint.y} r={5} className="fill-blue-500 stroke-background" strokeWidth={2}>
+          <title>Your location</title>
+        </circle>
+      )}
+    </svg>
+  );
+};
+
+export default FarmMap;
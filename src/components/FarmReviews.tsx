@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Star } from "lucide-react";
+
+interface Review {
+  id: string;
+  user_id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  reviewer_name: string;
+}
+
+interface FarmReviewsProps {
+  /** auth user id of the farm, as stored in reviews.farm_id */
+  farmUserId: string;
+  limit?: number;
+}
+
+const FarmReviews = ({ farmUserId, limit = 5 }: FarmReviewsProps) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadReviews();
+  }, [farmUserId]);
+
+  const loadReviews = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("id, user_id, rating, comment, created_at")
+        .eq("farm_id", farmUserId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", [...new Set((data || []).map((r) => r.user_id))]);
+
+      const names = new Map(profiles?.map((p) => [p.id, p.full_name]));
+      setReviews(
+        (data || []).map((r) => ({ ...r, reviewer_name: names.get(r.user_id) || "Buyer" }))
+      );
+    } catch (error) {
+      console.error("Failed to load reviews:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) return null;
+
+  if (reviews.length === 0) {
+    return <p className="text-sm text-muted-foreground">No reviews yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {reviews.map((review) => (
+        <div key={review.id} className="text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{review.reviewer_name}</span>
+            <span className="text-xs text-muted-foreground">
+              {new Date(review.created_at).toLocaleDateString()}
+            </span>
+          </div>
+          <div className="flex items-center gap-0.5 text-yellow-500 my-1">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Star
+                key={value}
+                className={`w-3 h-3 ${value <= review.rating ? "fill-current" : ""}`}
+              />
+            ))}
+          </div>
+          {review.comment && <p className="text-muted-foreground">{review.comment}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FarmReviews;
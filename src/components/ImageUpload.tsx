@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { getThumbnailUrl, MAX_SOURCE_IMAGE_SIZE, uploadImage, type ImageBucket } from "@/lib/images";
+import { cn } from "@/lib/utils";
+import { ImagePlus, Loader2, X } from "lucide-react";
+
+interface ImageUploadProps {
+  id: string;
+  bucket: ImageBucket;
+  /** Owner's user id; uploads go to that folder of the bucket. */
+  userId: string;
+  value: string[];
+  onChange: (urls: string[]) => void;
+  maxFiles?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Drag-and-drop image picker that resizes, strips metadata and uploads to
+ * Storage as soon as files are chosen. `value` holds the public URLs; with
+ * several photos the first one is used as the cover.
+ */
+const ImageUpload = ({
+  id,
+  bucket,
+  userId,
+  value,
+  onChange,
+  maxFiles = 1,
+  disabled = false,
+}: ImageUploadProps) => {
+  const [uploading, setUploading] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const remaining = maxFiles - value.length;
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files || disabled) return;
+
+    const accepted = Array.from(files).filter((file) => {
+      if (!file.type.startsWith("image/")) {
+        toast.error(`${file.name} is not an image`);
+        return false;
+      }
+      if (file.size > MAX_SOURCE_IMAGE_SIZE) {
+        toast.error(`${file.name} is larger than 20 MB`);
+        return false;
+      }
+      return true;
+    });
+
+    if (accepted.length > remaining) {
+      toast.error(maxFiles === 1 ? "Only one photo can be attached" : `You can attach up to ${maxFiles} photos`);
+    }
+
+    const batch = accepted.slice(0, Math.max(remaining, 0));
+    if (batch.length === 0) return;
+
+    setUploading(batch.length);
+
+    const uploaded: string[] = [];
+    for (const file of batch) {
+      try {
+        uploaded.push(await uploadImage(bucket, userId, file));
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : `Failed to upload ${file.name}`;
+        toast.error(message);
+      } finally {
+        setUploading((count) => count - 1);
+      }
+    }
+
+    if (uploaded.length > 0) onChange([...value, ...uploaded]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {value.map((url, index) => (
+            <div key={url} className="relative">
+              <img
+                src={getThumbnailUrl(url)}
+                alt={`Photo ${index + 1}`}
+                className="w-full h-24 object-cover rounded"
+              />
+              {maxFiles > 1 && index === 0 && (
+                <span className="absolute bottom-1 left-1 bg-background/80 text-xs px-2 py-0.5 rounded">
+                  Cover
+                </span>
+              )}
+              <Button
+                type="button"
+                variant="secondary"
+                size="icon"
+                className="absolute top-1 right-1 h-6 w-6"
+                disabled={disabled || uploading > 0}
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(remaining > 0 || uploading > 0) && (
+        <label
+          htmlFor={id}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          className={cn(
+            "flex items-center justify-center gap-2 h-20 border-2 border-dashed border-border rounded-lg cursor-pointer text-sm text-muted-foreground hover:bg-muted/50",
+            dragging && "border-primary bg-primary/5",
+            (disabled || uploading > 0) && "pointer-events-none opacity-60"
+          )}
+        >
+          {uploading > 0 ? (
+            <>
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Uploading {uploading} photo{uploading > 1 ? "s" : ""}...
+            </>
+          ) : (
+            <>
+              <ImagePlus className="w-5 h-5" />
+              {maxFiles === 1 ? "Drop a photo or click to choose" : "Drop photos or click to choose"}
+            </>
+          )}
+        </label>
+      )}
+
+      <input
+        id={id}
+        type="file"
+        accept="image/*"
+        multiple={maxFiles > 1}
+        className="hidden"
+        disabled={disabled || uploading > 0}
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
+
+export default ImageUpload;
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { getDevicePosition, isValidPostcode, type AddressLocation } from "@/lib/geocoding";
+import { THAI_PROVINCES } from "@/lib/thai-provinces";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Crosshair, Loader2, MapPin } from "lucide-react";
+
+interface LocationFieldsProps {
+  /** Prefix for input ids, so the fields can appear twice on one page. */
+  id: string;
+  value: AddressLocation;
+  onChange: (value: AddressLocation) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Province picker, district, subdistrict and postcode inputs plus the map pin.
+ * Editing the address drops the pin so it is geocoded again on save.
+ */
+const LocationFields = ({ id, value, onChange, disabled }: LocationFieldsProps) => {
+  const [locating, setLocating] = useState(false);
+
+  const updateAddress = (changes: Partial<AddressLocation>) => {
+    onChange({ ...value, ...changes, latitude: null, longitude: null });
+  };
+
+  const pinDeviceLocation = async () => {
+    setLocating(true);
+
+    try {
+      const position = await getDevicePosition();
+      onChange({ ...value, ...position });
+      toast.success("Location pinned");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Could not get your location";
+      toast.error(message);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const postcodeError =
+    value.postcode !== "" && !isValidPostcode(value.postcode) ? "Postcode must be 5 digits" : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}_province`}>Province</Label>
+          <Select
+            value={value.province_code}
+            onValueChange={(province_code) =>
+              updateAddress({ province_code, district: "", subdistrict: "", postcode: "" })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger id={`${id}_province`}>
+              <SelectValue placeholder="Select province" />
+            </SelectTrigger>
+            <SelectContent>
+              {THAI_PROVINCES.map((province) => (
+                <SelectItem key={province.code} value={province.code}>
+                  {province.name} ({province.thaiName})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${id}_district`}>District (Amphoe)</Label>
+          <Input
+            id={`${id}_district`}
+            value={value.district}
+            onChange={(e) => updateAddress({ district: e.target.value })}
+            placeholder="e.g. Mueang"
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${id}_subdistrict`}>Subdistrict (Tambon)</Label>
+          <Input
+            id={`${id}_subdistrict`}
+            value={value.subdistrict}
+            onChange={(e) => updateAddress({ subdistrict: e.target.value })}
+            placeholder="Subdistrict"
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${id}_postcode`}>Postcode</Label>
+          <Input
+            id={`${id}_postcode`}
+            value={value.postcode}
+            onChange={(e) => updateAddress({ postcode: e.target.value.replace(/\D/g, "").slice(0, 5) })}
+            placeholder="10200"
+            inputMode="numeric"
+            disabled={disabled}
+          />
+          {postcodeError && <p className="text-xs text-destructive">{postcodeError}</p>}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <MapPin className="w-4 h-4" />
+          {value.latitude !== null && value.longitude !== null
+            ? `Pinned at ${value.latitude.toFixed(4)}, ${value.longitude.toFixed(4)}`
+            : value.province_code
+              ? "Pin will be placed from the address when you save"
+              : "Choose a province to appear in distance searches"}
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={pinDeviceLocation}
+          disabled={disabled || locating}
+        >
+          {locating ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Crosshair className="w-4 h-4 mr-2" />
+          )}
+          Use current location
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LocationFields;
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/hooks/use-session";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell, CheckCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface Notification {
+  id: string;
+  title: string;
+  message: string;
+  type: string;
+  read: boolean | null;
+  related_order_id: string | null;
+  created_at: string;
+  orders: {
+    farm_id: string;
+  } | null;
+}
+
+const NOTIFICATION_LIMIT = 30;
+
+// read is nullable, and rows where it was never set count as unread
+const UNREAD_FILTER = "read.is.null,read.eq.false";
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const userId = user?.id ?? null;
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadNotifications(userId);
+
+    // Reload on any change to this user's notifications so new rows and
+    // read flags from other tabs show up immediately
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        () => loadNotifications(userId)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const loadNotifications = async (uid: string) => {
+    // Only the latest rows are listed, so unread ones are counted separately
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      supabase
+        .from("notifications")
+        .select("id, title, message, type, read, related_order_id, created_at, orders (farm_id)")
+        .eq("user_id", uid)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_LIMIT),
+      supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", uid)
+        .or(UNREAD_FILTER),
+    ]);
+
+    if (error || countError) {
+      toast.error(error?.message || countError?.message || "Failed to load notifications");
+      return;
+    }
+
+    setNotifications(data || []);
+    setUnreadCount(count ?? 0);
+  };
+
+  const markRead = async (notificationId: string) => {
+    setNotifications((prev) => prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n)));
+    setUnreadCount((prev) => Math.max(prev - 1, 0));
+    const { error } = await supabase.from("notifications").update({ read: true }).eq("id", notificationId);
+    if (error) toast.error(error.message || "Failed to update notification");
+  };
+
+  const markAllRead = async () => {
+    if (!userId) return;
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    setUnreadCount(0);
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read: true })
+      .eq("user_id", userId)
+      .or(UNREAD_FILTER);
+    if (error) toast.error(error.message || "Failed to update notifications");
+  };
+
+  const getOrderLink = (notification: Notification) => {
+    if (!notification.related_order_id) return null;
+    if (notification.orders?.farm_id === userId) {
+      return `/farm/orders/${notification.related_order_id}`;
+    }
+    return `/orders/${notification.related_order_id}`;
+  };
+
+  const handleClick = (notification: Notification) => {
+    if (!notification.read) markRead(notification.id);
+
+    const link = getOrderLink(notification);
+    if (link) {
+      setOpen(false);
+      navigate(link);
+    }
+  };
+
+  if (!userId) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h4 className="font-semibold">Notifications</h4>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={markAllRead}>
+              <CheckCheck className="w-3 h-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No notifications yet</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleClick(notification)}
+                className={cn(
+                  "w-full text-left px-4 py-3 border-b border-border last:border-0 hover:bg-muted/50 transition-colors",
+                  !notification.read && "bg-primary/5"
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.read && (
+                    <span className="mt-1.5 w-2 h-2 rounded-full bg-primary shrink-0" />
+                  )}
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground">{notification.message}</p>
+                    <p className="text-[11px] text-muted-foreground mt-1">
+                      {new Date(notification.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,127 @@
+import {
+  CheckCircle2,
+  Circle,
+  Loader2,
+  PackageCheck,
+  Pencil,
+  ShoppingBag,
+  Star,
+  Truck,
+  Wallet,
+  XCircle,
+  type LucideIcon,
+} from "lucide-react";
+import { useOrderEvents, type OrderEvent } from "@/hooks/use-orders";
+import type { Database } from "@/integrations/supabase/types";
+
+type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+const statusSteps: Record<OrderStatus, { label: string; icon: LucideIcon }> = {
+  pending: { label: "Order placed", icon: ShoppingBag },
+  confirmed: { label: "Confirmed", icon: CheckCircle2 },
+  shipped: { label: "Shipped", icon: Truck },
+  delivered: { label: "Delivered", icon: PackageCheck },
+  cancelled: { label: "Cancelled", icon: XCircle },
+  reviewed: { label: "Reviewed", icon: Star },
+};
+
+const actorLabels: Record<string, string> = {
+  buyer: "Buyer",
+  farm: "Farm",
+  admin: "Admin",
+  system: "System",
+};
+
+interface TimelineEntry {
+  title: string;
+  details: string[];
+  icon: LucideIcon;
+  color: string;
+}
+
+function describeEvent(event: OrderEvent): TimelineEntry {
+  const changes = event.changed_fields;
+  const details: string[] = [];
+
+  if (changes.tracking_number?.new) details.push(`Tracking ${changes.tracking_number.new}`);
+  if (changes.payment_status) details.push(`Payment ${String(changes.payment_status.new).replace("_", " ")}`);
+  if (event.reason) details.push(event.reason);
+
+  if (event.old_status !== event.new_status) {
+    const step = statusSteps[event.new_status];
+    return {
+      title: step.label,
+      details,
+      icon: step.icon,
+      color: event.new_status === "cancelled" ? "text-destructive" : "text-primary",
+    };
+  }
+
+  // No status change: a tracking correction, a payment update or some other edit
+  if (changes.tracking_number) {
+    return { title: "Tracking number updated", details, icon: Pencil, color: "text-muted-foreground" };
+  }
+
+  if (changes.payment_status) {
+    return { title: "Payment updated", details, icon: Wallet, color: "text-muted-foreground" };
+  }
+
+  return {
+    title: "Order updated",
+    details: [...details, Object.keys(changes).join(", ").replace(/_/g, " ")],
+    icon: Circle,
+    color: "text-muted-foreground",
+  };
+}
+
+interface OrderTimelineProps {
+  orderId: string;
+}
+
+/** Who changed what on an order, from its append-only event log. */
+const OrderTimeline = ({ orderId }: OrderTimelineProps) => {
+  const { data: events = [], isLoading, error } = useOrderEvents(orderId);
+
+  if (isLoading) {
+    return <Loader2 className="w-5 h-5 animate-spin text-primary" />;
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">Failed to load order history</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {events.map((event, index) => {
+        const { title, details, icon: Icon, color } = describeEvent(event);
+
+        return (
+          <li key={event.id} className="flex gap-3">
+            <div className="flex flex-col items-center">
+              <Icon className={`w-5 h-5 ${color}`} />
+              {index < events.length - 1 && <div className="w-px flex-1 bg-border mt-1" />}
+            </div>
+            <div className="pb-1">
+              <p className="font-medium">
+                {title}
+                {event.actor !== "unknown" && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    by {actorLabels[event.actor] ?? event.actor}
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-muted-foreground">{new Date(event.created_at).toLocaleString()}</p>
+              {details.map((detail) => (
+                <p key={detail} className="text-sm">
+                  {detail}
+                </p>
+              ))}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
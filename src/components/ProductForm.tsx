@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Lock } from "lucide-react";
+import ImageUpload from "@/components/ImageUpload";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { useCultivars } from "@/hooks/use-cultivars";
+import type { DetectionRunOption } from "@/hooks/use-detections";
+import { formatDefect, ripenessLabels } from "@/lib/detection";
+
+const MAX_PRODUCT_PHOTOS = 6;
+
+/** Columns the product form writes; the page adds farm_id and is_active. */
+export type ProductFields = Omit<TablesInsert<"products">, "farm_id" | "is_active">;
+
+interface ProductFormProps {
+  /** Owner of the listing, whose Storage folder receives the photos. */
+  userId: string;
+  /** Listing being edited; omitted when creating one. */
+  product?: ProductFields;
+  detections: DetectionRunOption[];
+  /** Disables price, unit and quantity while the listing has open orders. */
+  pricingLocked?: boolean;
+  submitting: boolean;
+  submitLabel: string;
+  onSubmit: (fields: ProductFields) => void;
+  onCancel: () => void;
+}
+
+const ProductForm = ({
+  userId,
+  product,
+  detections,
+  pricingLocked = false,
+  submitting,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: ProductFormProps) => {
+  const { data: cultivars = [] } = useCultivars();
+  const [formData, setFormData] = useState({
+    name: product?.name ?? "",
+    description: product?.description ?? "",
+    product_type: (product?.product_type ?? "fruit") as "fruit" | "shoot",
+    price_per_unit: product ? String(product.price_per_unit) : "",
+    available_quantity: product ? String(product.available_quantity) : "",
+    unit: product?.unit ?? "kg",
+    harvest_date: product?.harvest_date ?? "",
+    expiry_date: product?.expiry_date ?? "",
+    image_urls: product?.image_urls ?? (product?.image_url ? [product.image_url] : []),
+    detection_run_id: product?.detection_run_id ?? "none",
+    cultivar_id: product?.cultivar_id ?? "none",
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error("Product name is required");
+      return;
+    }
+
+    const price = parseFloat(formData.price_per_unit);
+    if (isNaN(price) || price <= 0) {
+      toast.error("Price must be greater than 0");
+      return;
+    }
+
+    // An existing listing may have sold out, so it can be saved with zero stock
+    const quantity = parseInt(formData.available_quantity);
+    if (isNaN(quantity) || quantity < (product ? 0 : 1)) {
+      toast.error(product ? "Quantity cannot be negative" : "Quantity must be greater than 0");
+      return;
+    }
+
+    if (!formData.harvest_date) {
+      toast.error("Harvest date is required");
+      return;
+    }
+
+    const detection = detections.find((d) => d.id === formData.detection_run_id);
+
+    onSubmit({
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      product_type: formData.product_type,
+      price_per_unit: price,
+      available_quantity: quantity,
+      unit: formData.unit,
+      harvest_date: formData.harvest_date,
+      expiry_date: formData.expiry_date || null,
+      image_url: formData.image_urls[0] ?? null,
+      image_urls: formData.image_urls,
+      detection_run_id: detection?.id ?? null,
+      cultivar_id: formData.cultivar_id === "none" ? null : formData.cultivar_id,
+    });
+  };
+
+  const selectedDetection = detections.find((d) => d.id === formData.detection_run_id);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="name">Product Name *</Label>
+        <Input
+          id="name"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="e.g., Gros Michel Bananas"
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          placeholder="Describe your product..."
+          rows={3}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="product_type">Product Type *</Label>
+          <Select
+            value={formData.product_type}
+            onValueChange={(value: "fruit" | "shoot") =>
+              setFormData({ ...formData, product_type: value })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fruit">Fruit</SelectItem>
+              <SelectItem value="shoot">Shoot</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="unit">Unit</Label>
+          <Select
+            value={formData.unit}
+            disabled={pricingLocked}
+            onValueChange={(value) => setFormData({ ...formData, unit: value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="kg">Kilogram (kg)</SelectItem>
+              <SelectItem value="bunch">Bunch</SelectItem>
+              <SelectItem value="piece">Piece</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="price">Price per Unit (฿) *</Label>
+          <Input
+            id="price"
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={formData.price_per_unit}
+            disabled={pricingLocked}
+            onChange={(e) => setFormData({ ...formData, price_per_unit: e.target.value })}
+            placeholder="0.00"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="quantity">Available Quantity *</Label>
+          <Input
+            id="quantity"
+            type="number"
+            min={product ? "0" : "1"}
+            value={formData.available_quantity}
+            disabled={pricingLocked}
+            onChange={(e) => setFormData({ ...formData, available_quantity: e.target.value })}
+            placeholder="0"
+            required
+          />
+        </div>
+      </div>
+
+      {pricingLocked && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <Lock className="w-3 h-3" />
+          Price, unit and quantity are locked until open orders for this product are completed or cancelled
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="harvest_date">Harvest Date *</Label>
+          <Input
+            id="harvest_date"
+            type="date"
+            value={formData.harvest_date}
+            onChange={(e) => setFormData({ ...formData, harvest_date: e.target.value })}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="expiry_date">Expiry Date</Label>
+          <Input
+            id="expiry_date"
+            type="date"
+            value={formData.expiry_date}
+            onChange={(e) => setFormData({ ...formData, expiry_date: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="product_images">Photos (up to {MAX_PRODUCT_PHOTOS})</Label>
+        <ImageUpload
+          id="product_images"
+          bucket="product-images"
+          userId={userId}
+          value={formData.image_urls}
+          onChange={(urls) => setFormData((prev) => ({ ...prev, image_urls: urls }))}
+          maxFiles={MAX_PRODUCT_PHOTOS}
+        />
+        <p className="text-xs text-muted-foreground">The first photo is shown in the marketplace</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="cultivar_id">Cultivar</Label>
+        <Select
+          value={formData.cultivar_id}
+          onValueChange={(value) => setFormData({ ...formData, cultivar_id: value })}
+        >
+          <SelectTrigger id="cultivar_id">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Not specified</SelectItem>
+            {cultivars.map((cultivar) => (
+              <SelectItem key={cultivar.id} value={cultivar.id}>
+                {cultivar.name} ({cultivar.thai_name})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Buyers can browse the marketplace and knowledge base by cultivar
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="detection_run_id">Detection Evidence</Label>
+        <Select
+          value={formData.detection_run_id}
+          onValueChange={(value) => {
+            // Attaching a detection also fills in the cultivar it identified
+            const detection = detections.find((d) => d.id === value);
+            setFormData({
+              ...formData,
+              detection_run_id: value,
+              cultivar_id: detection?.cultivar_id ?? formData.cultivar_id,
+            });
+          }}
+        >
+          <SelectTrigger id="detection_run_id">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No detection attached</SelectItem>
+            {detections.map((detection) => (
+              <SelectItem key={detection.id} value={detection.id}>
+                {detection.cultivars?.name || "Unknown cultivar"} · {ripenessLabels[detection.ripeness_stage]} ·{" "}
+                {detection.quality}
+                {detection.created_at && ` (${new Date(detection.created_at).toLocaleDateString()})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {detections.length === 0
+            ? "Run a detection on the home page to attach it as evidence of cultivar and grade"
+            : !selectedDetection
+              ? "Buyers see the cultivar and grade from the attached detection"
+              : selectedDetection.defects.length > 0
+                ? `Defects: ${selectedDetection.defects.map(formatDefect).join(", ")}`
+                : "No defects found"}
+        </p>
+      </div>
+
+      <div className="flex gap-4 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" className="flex-1" disabled={submitting}>
+          {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ProductForm;
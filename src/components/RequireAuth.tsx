@@ -0,0 +1,28 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useSession } from "@/hooks/use-session";
+import { Loader2 } from "lucide-react";
+
+/**
+ * Layout route that only renders its children for signed-in users. Everyone
+ * else is sent to the login page, which returns them here afterwards.
+ */
+const RequireAuth = () => {
+  const location = useLocation();
+  const { user, isLoading } = useSession();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth/login" replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireAuth;
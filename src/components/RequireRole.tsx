@@ -0,0 +1,45 @@
+import { useEffect } from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useRoles, type UserRole } from "@/hooks/use-roles";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface RequireRoleProps {
+  role: UserRole;
+  /** Where to send signed-in users who lack the role. */
+  redirectTo?: string;
+  deniedMessage?: string;
+}
+
+/** Layout route that only renders its children for users holding `role`. */
+const RequireRole = ({ role, redirectTo = "/dashboard", deniedMessage }: RequireRoleProps) => {
+  const location = useLocation();
+  const { user, hasRole, isLoading, isFetching, error } = useRoles();
+  const checking = isLoading || (isFetching && !hasRole(role));
+  const denied = !checking && !!user && !hasRole(role);
+
+  useEffect(() => {
+    if (error) toast.error(error.message || "Failed to load your roles");
+    else if (denied && deniedMessage) toast.error(deniedMessage);
+  }, [error, denied]);
+
+  if (checking) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth/login" replace state={{ from: location }} />;
+  }
+
+  if (!hasRole(role)) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireRole;
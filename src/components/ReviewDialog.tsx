@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Loader2, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ReviewDialogProps {
+  orderId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+const ReviewDialog = ({ orderId, onOpenChange, onSubmitted }: ReviewDialogProps) => {
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setRating(0);
+      setComment("");
+    }
+    onOpenChange(open);
+  };
+
+  const handleSubmit = async () => {
+    if (!orderId) return;
+
+    if (rating < 1) {
+      toast.error("Please choose a rating");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc("submit_review", {
+        _order_id: orderId,
+        _rating: rating,
+        _comment: comment.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success("Thank you for your review!");
+      handleOpenChange(false);
+      onSubmitted();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to submit review";
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review your order</DialogTitle>
+          <DialogDescription>Let other buyers know how this farm did.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-center gap-1" onMouseLeave={() => setHoverRating(0)}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                aria-label={`${value} star${value > 1 ? "s" : ""}`}
+                onClick={() => setRating(value)}
+                onMouseEnter={() => setHoverRating(value)}
+              >
+                <Star
+                  className={cn(
+                    "w-8 h-8 text-yellow-500",
+                    value <= (hoverRating || rating) && "fill-current"
+                  )}
+                />
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review_comment">Comment</Label>
+            <Textarea
+              id="review_comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Freshness, packaging, delivery..."
+              rows={4}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Submit Review
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,89 @@
+import { Outlet } from "react-router-dom";
+import { NavLink } from "@/components/NavLink";
+import {
+  LayoutDashboard,
+  MapPin,
+  Package,
+  Receipt,
+  ShieldCheck,
+  ShoppingBag,
+  ShoppingCart,
+  Store,
+  User,
+  type LucideIcon,
+} from "lucide-react";
+
+export type ShellRole = "buyer" | "farm" | "admin";
+
+interface ShellLink {
+  to: string;
+  label: string;
+  icon: LucideIcon;
+  end?: boolean;
+}
+
+const shells: Record<ShellRole, { label: string; links: ShellLink[] }> = {
+  buyer: {
+    label: "My Account",
+    links: [
+      { to: "/dashboard", label: "Dashboard", icon: LayoutDashboard, end: true },
+      { to: "/market", label: "Marketplace", icon: ShoppingBag },
+      { to: "/market/cart", label: "Cart", icon: ShoppingCart },
+      { to: "/orders", label: "Orders", icon: Receipt },
+      { to: "/addresses", label: "Addresses", icon: MapPin },
+      { to: "/profile", label: "Profile", icon: User },
+    ],
+  },
+  farm: {
+    label: "Farm",
+    links: [
+      { to: "/farm", label: "Overview", icon: Store, end: true },
+      { to: "/farm/products", label: "Products", icon: Package },
+      { to: "/farm/orders", label: "Orders", icon: ShoppingCart },
+      { to: "/dashboard", label: "Buyer View", icon: LayoutDashboard },
+    ],
+  },
+  admin: {
+    label: "Admin",
+    links: [
+      { to: "/admin", label: "Console", icon: ShieldCheck, end: true },
+      { to: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
+    ],
+  },
+};
+
+interface RoleShellProps {
+  role: ShellRole;
+}
+
+/** Section navigation shared by every page of a role, above the page's own header. */
+const RoleShell = ({ role }: RoleShellProps) => {
+  const shell = shells[role];
+
+  return (
+    <>
+      <div className="border-b border-border bg-background">
+        <div className="container mx-auto px-4 flex items-center gap-1 overflow-x-auto">
+          <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mr-3">
+            {shell.label}
+          </span>
+          {shell.links.map(({ to, label, icon: Icon, end }) => (
+            <NavLink
+              key={to}
+              to={to}
+              end={end}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-muted-foreground border-b-2 border-transparent hover:text-foreground whitespace-nowrap"
+              activeClassName="text-foreground border-primary"
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </NavLink>
+          ))}
+        </div>
+      </div>
+      <Outlet />
+    </>
+  );
+};
+
+export default RoleShell;
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { queryKeys } from "@/lib/query-keys";
+
+export type Address = Tables<"addresses">;
+export type AddressFields = Omit<TablesInsert<"addresses">, "id" | "user_id" | "created_at" | "updated_at">;
+
+/** A user's saved addresses, default first. */
+export function useAddresses(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.addresses(userId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("addresses")
+        .select("*")
+        .eq("user_id", userId!)
+        .order("is_default", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Creates an address, or updates it when `addressId` is given. Which address
+ * is the default is maintained by the database, so the list is refetched.
+ */
+export function useSaveAddress(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ addressId, fields }: { addressId?: string; fields: AddressFields }) => {
+      const query = addressId
+        ? supabase.from("addresses").update(fields).eq("id", addressId)
+        : supabase.from("addresses").insert({ ...fields, user_id: userId! });
+
+      const { data, error } = await query.select("*").single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.addresses(userId) }),
+  });
+}
+
+export function useDeleteAddress(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (addressId: string) => {
+      const { error } = await supabase.from("addresses").delete().eq("id", addressId);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.addresses(userId) }),
+  });
+}
+
+export function useSetDefaultAddress(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (addressId: string) => {
+      const { error } = await supabase.from("addresses").update({ is_default: true }).eq("id", addressId);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.addresses(userId) }),
+  });
+}
@@ -0,0 +1,110 @@
+import * as React from "react";
+
+const CART_STORAGE_KEY = "banana-cart";
+
+export interface CartItem {
+  productId: string;
+  farmId: string;
+  name: string;
+  unit: string;
+  pricePerUnit: number;
+  availableQuantity: number;
+  imageUrl: string | null;
+  quantity: number;
+}
+
+interface CartContextValue {
+  items: CartItem[];
+  itemCount: number;
+  subtotal: number;
+  addItem: (item: Omit<CartItem, "quantity">, quantity?: number) => void;
+  updateQuantity: (productId: string, quantity: number) => void;
+  removeItem: (productId: string) => void;
+  replaceItems: (items: CartItem[]) => void;
+  clear: () => void;
+}
+
+const CartContext = React.createContext<CartContextValue | null>(null);
+
+function loadCart(): CartItem[] {
+  try {
+    const raw = localStorage.getItem(CART_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CartItem[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function clampQuantity(quantity: number, available: number) {
+  if (isNaN(quantity) || quantity < 1) return 1;
+  return Math.min(quantity, Math.max(available, 1));
+}
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = React.useState<CartItem[]>(loadCart);
+
+  React.useEffect(() => {
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+  }, [items]);
+
+  // Keep carts in sync across open tabs
+  React.useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === CART_STORAGE_KEY) setItems(loadCart());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const addItem = React.useCallback((item: Omit<CartItem, "quantity">, quantity = 1) => {
+    setItems((prev) => {
+      const existing = prev.find((i) => i.productId === item.productId);
+      if (existing) {
+        return prev.map((i) =>
+          i.productId === item.productId
+            ? { ...i, ...item, quantity: clampQuantity(i.quantity + quantity, item.availableQuantity) }
+            : i
+        );
+      }
+      return [...prev, { ...item, quantity: clampQuantity(quantity, item.availableQuantity) }];
+    });
+  }, []);
+
+  const updateQuantity = React.useCallback((productId: string, quantity: number) => {
+    setItems((prev) =>
+      prev.map((i) =>
+        i.productId === productId ? { ...i, quantity: clampQuantity(quantity, i.availableQuantity) } : i
+      )
+    );
+  }, []);
+
+  const removeItem = React.useCallback((productId: string) => {
+    setItems((prev) => prev.filter((i) => i.productId !== productId));
+  }, []);
+
+  const clear = React.useCallback(() => setItems([]), []);
+
+  const value = React.useMemo<CartContextValue>(
+    () => ({
+      items,
+      itemCount: items.reduce((sum, i) => sum + i.quantity, 0),
+      subtotal: items.reduce((sum, i) => sum + i.pricePerUnit * i.quantity, 0),
+      addItem,
+      updateQuantity,
+      removeItem,
+      replaceItems: setItems,
+      clear,
+    }),
+    [items, addItem, updateQuantity, removeItem, clear]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
+
+export function useCart() {
+  const context = React.useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider.");
+  }
+  return context;
+}
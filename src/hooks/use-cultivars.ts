@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+async function fetchCultivars() {
+  const { data, error } = await supabase
+    .from("cultivars")
+    .select("id, name, thai_name, slug")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+export type CultivarOption = Awaited<ReturnType<typeof fetchCultivars>>[number];
+
+/** Every cultivar in the knowledge base, by name. The list rarely changes. */
+export function useCultivars() {
+  return useQuery({
+    queryKey: queryKeys.cultivars,
+    queryFn: fetchCultivars,
+    staleTime: 60 * 60 * 1000,
+  });
+}
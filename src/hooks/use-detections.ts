@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+async function fetchDetectionRuns(userId: string) {
+  const { data, error } = await supabase
+    .from("detection_runs")
+    .select("id, cultivar_id, ripeness_stage, defects, quality, created_at, cultivars (name)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  if (error) throw error;
+  return data;
+}
+
+export type DetectionRunOption = Awaited<ReturnType<typeof fetchDetectionRuns>>[number];
+
+/** A user's recent detections, offered as evidence when listing a product. */
+export function useDetectionRuns(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.detectionRuns(userId),
+    queryFn: () => fetchDetectionRuns(userId!),
+    enabled: !!userId,
+  });
+}
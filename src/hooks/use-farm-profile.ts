@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { getFarmByOwner } from "@/lib/farms";
+import { queryKeys } from "@/lib/query-keys";
+import { useSession } from "@/hooks/use-session";
+
+/** Farm owned by the signed-in user; `farm` is null for users without one. */
+export function useFarmProfile() {
+  const { user, isLoading: sessionLoading } = useSession();
+
+  const query = useQuery({
+    queryKey: queryKeys.farmProfile(user?.id),
+    queryFn: () => getFarmByOwner(user!.id),
+    enabled: !!user,
+  });
+
+  return {
+    user,
+    farm: query.data ?? null,
+    isLoading: sessionLoading || (!!user && query.isLoading),
+    error: query.error,
+  };
+}
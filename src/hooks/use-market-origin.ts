@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { getDevicePosition, type GeoPoint } from "@/lib/geocoding";
+import { useAddresses } from "@/hooks/use-addresses";
+import { useSession } from "@/hooks/use-session";
+
+const DEVICE_ORIGIN_KEY = "market-origin";
+
+function readDeviceOrigin(): GeoPoint | null {
+  try {
+    const stored = sessionStorage.getItem(DEVICE_ORIGIN_KEY);
+    return stored ? (JSON.parse(stored) as GeoPoint) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where marketplace distances are measured from: the device position once the
+ * buyer shares it (kept for the browser session), otherwise their default
+ * delivery address.
+ */
+export function useMarketOrigin() {
+  const { user } = useSession();
+  const [devicePosition, setDevicePosition] = useState<GeoPoint | null>(readDeviceOrigin);
+  const [locating, setLocating] = useState(false);
+
+  const { data: addresses, isLoading: addressesLoading } = useAddresses(user?.id);
+  const defaultAddress = addresses?.find((a) => a.is_default);
+
+  const locate = async () => {
+    setLocating(true);
+
+    try {
+      const position = await getDevicePosition();
+      // Rounded to roughly 100 m, which is plenty for ranking farms and keeps query keys stable
+      const origin = {
+        latitude: Math.round(position.latitude * 1000) / 1000,
+        longitude: Math.round(position.longitude * 1000) / 1000,
+      };
+      sessionStorage.setItem(DEVICE_ORIGIN_KEY, JSON.stringify(origin));
+      setDevicePosition(origin);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const addressPosition =
+    defaultAddress?.latitude != null && defaultAddress.longitude != null
+      ? { latitude: defaultAddress.latitude, longitude: defaultAddress.longitude }
+      : null;
+  const origin = devicePosition ?? addressPosition;
+
+  return {
+    origin,
+    source: devicePosition ? ("device" as const) : origin ? ("address" as const) : null,
+    locate,
+    locating,
+    isLoading: !!user && addressesLoading,
+  };
+}
@@ -0,0 +1,419 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json, Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { parseDeliverySnapshot } from "@/lib/addresses";
+import { queryKeys } from "@/lib/query-keys";
+
+const HISTORY_PAGE_SIZE = 20;
+
+type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+async function fetchBuyerOrders(userId: string, limit?: number) {
+  let query = supabase
+    .from("orders")
+    .select(`
+      id,
+      checkout_id,
+      status,
+      payment_status,
+      total_price,
+      created_at,
+      order_items (quantity, products (name))
+    `)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (limit) query = query.limit(limit);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+}
+
+async function fetchBuyerOrderPage(userId: string, status: OrderStatus | null, page: number) {
+  let query = supabase
+    .from("orders")
+    .select(`
+      id,
+      checkout_id,
+      status,
+      payment_status,
+      total_price,
+      tracking_number,
+      created_at,
+      order_items (quantity, products (name)),
+      farm_profiles (farm_name)
+    `)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range(page * HISTORY_PAGE_SIZE, (page + 1) * HISTORY_PAGE_SIZE - 1);
+
+  if (status) query = query.eq("status", status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+}
+
+async function fetchBuyerOrder(orderId: string, userId: string) {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(`
+      id,
+      checkout_id,
+      farm_id,
+      status,
+      payment_status,
+      total_price,
+      delivery_address,
+      delivery_snapshot,
+      delivery_notes,
+      tracking_number,
+      created_at,
+      confirmed_at,
+      shipped_at,
+      delivered_at,
+      cancelled_at,
+      cancellation_reason,
+      order_items (id, quantity, unit_price, subtotal, products (id, name, unit, image_url)),
+      farm_profiles (farm_name, farm_location, farm_image_url, verified)
+    `)
+    .eq("id", orderId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  // The farm's contact person is its owner, whose profile holds the phone number
+  const { data: owner, error: ownerError } = await supabase
+    .from("profiles")
+    .select("full_name, phone")
+    .eq("id", data.farm_id)
+    .maybeSingle();
+
+  if (ownerError) throw ownerError;
+
+  return {
+    ...data,
+    delivery_snapshot: parseDeliverySnapshot(data.delivery_snapshot),
+    farm_contact: owner,
+  };
+}
+
+async function fetchFarmOrders(farmId: string) {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(`
+      id,
+      user_id,
+      status,
+      total_price,
+      created_at,
+      order_items (quantity, products (name))
+    `)
+    .eq("farm_id", farmId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  // orders.user_id references auth.users, so buyer names are looked up separately
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, full_name")
+    .in("id", [...new Set(data.map((o) => o.user_id))]);
+
+  if (profilesError) throw profilesError;
+
+  const profileMap = new Map(profiles.map((p) => [p.id, p]));
+  return data.map((order) => ({ ...order, profiles: profileMap.get(order.user_id) ?? null }));
+}
+
+async function fetchFarmOrder(orderId: string, farmId: string) {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(`
+      id,
+      user_id,
+      status,
+      payment_status,
+      paid_at,
+      total_price,
+      delivery_address,
+      delivery_snapshot,
+      delivery_notes,
+      tracking_number,
+      created_at,
+      confirmed_at,
+      shipped_at,
+      delivered_at,
+      order_items (id, quantity, unit_price, subtotal, products (id, name, unit, image_url)),
+      payments (id, status, amount, slip_path, verification_ref, rejection_reason, created_at)
+    `)
+    .eq("id", orderId)
+    .eq("farm_id", farmId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  // orders.user_id references auth.users, so the buyer's profile is looked up separately
+  const { data: buyer, error: buyerError } = await supabase
+    .from("profiles")
+    .select("full_name, phone")
+    .eq("id", data.user_id)
+    .maybeSingle();
+
+  if (buyerError) throw buyerError;
+
+  const payments = [...data.payments].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  // The slip lives in a private bucket, so the farm gets a short-lived URL for the latest one
+  let slipUrl: string | null = null;
+  if (payments[0]) {
+    const { data: signed } = await supabase.storage
+      .from("payment-slips")
+      .createSignedUrl(payments[0].slip_path, 60 * 60);
+    slipUrl = signed?.signedUrl || null;
+  }
+
+  return {
+    ...data,
+    delivery_snapshot: parseDeliverySnapshot(data.delivery_snapshot),
+    profiles: buyer,
+    payments,
+    slip_url: slipUrl,
+  };
+}
+
+export type BuyerOrder = Awaited<ReturnType<typeof fetchBuyerOrders>>[number];
+/** What changed in one order event, keyed by column. */
+export type OrderEventChanges = Record<string, { old: Json; new: Json }>;
+
+export type OrderEvent = Omit<Tables<"order_events">, "changed_fields"> & {
+  changed_fields: OrderEventChanges;
+};
+
+async function fetchOrderEvents(orderId: string): Promise<OrderEvent[]> {
+  const { data, error } = await supabase
+    .from("order_events")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data.map((event) => ({ ...event, changed_fields: event.changed_fields as OrderEventChanges }));
+}
+
+export interface OrderDeadline {
+  kind: "farm_confirm" | "pickup_window";
+  deadline: string;
+}
+
+// Only the earliest deadline matters: it is the one the scheduler will act on first
+async function fetchFarmOrderDeadlines(): Promise<Record<string, OrderDeadline>> {
+  const { data, error } = await supabase.rpc("get_farm_order_deadlines");
+  if (error) throw error;
+
+  const deadlines: Record<string, OrderDeadline> = {};
+  for (const { order_id, kind, deadline } of data) {
+    const current = deadlines[order_id];
+    if (!current || new Date(deadline) < new Date(current.deadline)) {
+      deadlines[order_id] = { kind: kind as OrderDeadline["kind"], deadline };
+    }
+  }
+  return deadlines;
+}
+
+export type BuyerOrderSummary = Awaited<ReturnType<typeof fetchBuyerOrderPage>>[number];
+export type BuyerOrderDetail = NonNullable<Awaited<ReturnType<typeof fetchBuyerOrder>>>;
+export type FarmOrder = Awaited<ReturnType<typeof fetchFarmOrders>>[number];
+export type FarmOrderDetail = NonNullable<Awaited<ReturnType<typeof fetchFarmOrder>>>;
+
+/** A buyer's orders, newest first. */
+export function useBuyerOrders(userId: string | undefined, options: { limit?: number } = {}) {
+  return useQuery({
+    queryKey: [...queryKeys.orders.buyer(userId), options.limit],
+    queryFn: () => fetchBuyerOrders(userId!, options.limit),
+    enabled: !!userId,
+  });
+}
+
+/** A buyer's full order history, one page at a time, optionally limited to one status. */
+export function useBuyerOrderHistory(userId: string | undefined, status: OrderStatus | null) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.orders.buyerHistory(userId, status),
+    queryFn: ({ pageParam }) => fetchBuyerOrderPage(userId!, status, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < HISTORY_PAGE_SIZE ? undefined : allPages.length,
+    enabled: !!userId,
+  });
+}
+
+export function useBuyerOrder(orderId: string | undefined, userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.orders.buyerDetail(orderId),
+    queryFn: () => fetchBuyerOrder(orderId!, userId!),
+    enabled: !!orderId && !!userId,
+  });
+}
+
+/** Everything that happened to an order, oldest first. Visible to both of its parties. */
+export function useOrderEvents(orderId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.orders.events(orderId),
+    queryFn: () => fetchOrderEvents(orderId!),
+    enabled: !!orderId,
+  });
+}
+
+/** Orders placed with a farm, newest first. `farmId` is the owner's user id. */
+export function useFarmOrders(farmId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.orders.farm(farmId),
+    queryFn: () => fetchFarmOrders(farmId!),
+    enabled: !!farmId,
+  });
+}
+
+/**
+ * When each of the signed-in farm's open orders will be auto-cancelled, keyed by
+ * order id. `farmId` only scopes the cache; the database uses the caller.
+ */
+export function useFarmOrderDeadlines(farmId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.orders.deadlines(farmId),
+    queryFn: fetchFarmOrderDeadlines,
+    enabled: !!farmId,
+  });
+}
+
+export function useFarmOrder(orderId: string | undefined, farmId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.orders.detail(orderId),
+    queryFn: () => fetchFarmOrder(orderId!, farmId!),
+    enabled: !!orderId && !!farmId,
+  });
+}
+
+/**
+ * Changes an order's status. The cached order and the farm's order lists show
+ * the new status straight away and roll back if the database refuses the
+ * transition; the status timestamps it stamps are merged in once it succeeds.
+ */
+export function useUpdateOrderStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      orderId,
+      updates,
+    }: {
+      orderId: string;
+      updates: Pick<TablesUpdate<"orders">, "status" | "tracking_number">;
+    }) => {
+      const { data, error } = await supabase
+        .from("orders")
+        .update(updates)
+        .eq("id", orderId)
+        .select("id, status, tracking_number, confirmed_at, shipped_at, delivered_at, cancelled_at, cancellation_reason")
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onMutate: async ({ orderId, updates }) => {
+      const detailKey = queryKeys.orders.detail(orderId);
+      const buyerDetailKey = queryKeys.orders.buyerDetail(orderId);
+
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: detailKey }),
+        queryClient.cancelQueries({ queryKey: buyerDetailKey }),
+        queryClient.cancelQueries({ queryKey: queryKeys.orders.farmLists }),
+      ]);
+
+      const previous = {
+        detail: queryClient.getQueryData<FarmOrderDetail | null>(detailKey),
+        buyerDetail: queryClient.getQueryData<BuyerOrderDetail | null>(buyerDetailKey),
+        farmLists: queryClient.getQueriesData<FarmOrder[]>({ queryKey: queryKeys.orders.farmLists }),
+      };
+
+      queryClient.setQueryData<FarmOrderDetail | null>(detailKey, (order) =>
+        order ? { ...order, ...updates } : order
+      );
+      queryClient.setQueryData<BuyerOrderDetail | null>(buyerDetailKey, (order) =>
+        order ? { ...order, ...updates } : order
+      );
+      queryClient.setQueriesData<FarmOrder[]>({ queryKey: queryKeys.orders.farmLists }, (orders) =>
+        orders?.map((o) => (o.id === orderId ? { ...o, ...updates } : o))
+      );
+
+      return { previous };
+    },
+    onError: (_error, { orderId }, context) => {
+      if (!context) return;
+      queryClient.setQueryData(queryKeys.orders.detail(orderId), context.previous.detail);
+      queryClient.setQueryData(queryKeys.orders.buyerDetail(orderId), context.previous.buyerDetail);
+      context.previous.farmLists.forEach(([key, orders]) => queryClient.setQueryData(key, orders));
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData<FarmOrderDetail | null>(queryKeys.orders.detail(data.id), (order) =>
+        order ? { ...order, ...data } : order
+      );
+      queryClient.setQueryData<BuyerOrderDetail | null>(queryKeys.orders.buyerDetail(data.id), (order) =>
+        order ? { ...order, ...data } : order
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.orders.all }),
+  });
+}
+
+/**
+ * Cancels an order as its buyer or rejects it as its farm. The database checks
+ * the order can still be cancelled, restores stock and notifies the other party.
+ */
+export function useCancelOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, reason }: { orderId: string; reason: string }) => {
+      const { error } = await supabase.rpc("cancel_order", { _order_id: orderId, _reason: reason });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    },
+  });
+}
+
+export function useReviewPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ paymentId, approve, reason }: { paymentId: string; approve: boolean; reason?: string }) => {
+      const { error } = await supabase.rpc("review_payment_slip", {
+        _payment_id: paymentId,
+        _approve: approve,
+        _reason: reason,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.orders.all }),
+  });
+}
+
+export function useRefundPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderId: string) => {
+      const { error } = await supabase.rpc("refund_order_payment", { _order_id: orderId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.orders.all }),
+  });
+}
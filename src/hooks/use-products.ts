@@ -0,0 +1,252 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import type { GeoPoint } from "@/lib/geocoding";
+import type { MarketFilters } from "@/lib/market-filters";
+import { queryKeys } from "@/lib/query-keys";
+
+const SEARCH_PAGE_SIZE = 24;
+
+type SearchArgs = Database["public"]["Functions"]["search_product_cultivar_counts"]["Args"];
+
+// Filters shared by the search and facet count functions
+function toSearchArgs(filters: MarketFilters, origin: GeoPoint | null): SearchArgs {
+  return {
+    _query: filters.query.trim() || undefined,
+    _product_type: filters.productType ?? undefined,
+    _min_price: filters.minPrice ?? undefined,
+    _max_price: filters.maxPrice ?? undefined,
+    _harvest_from: filters.harvestFrom ?? undefined,
+    _harvest_to: filters.harvestTo ?? undefined,
+    _verified_only: filters.verifiedOnly,
+    _in_stock: filters.inStock,
+    _origin_lat: origin?.latitude,
+    _origin_lng: origin?.longitude,
+    // Without an origin no listing has a distance, so a radius would match nothing
+    _max_distance_km: origin ? filters.radiusKm ?? undefined : undefined,
+  };
+}
+
+interface SearchCursor {
+  key: number;
+  id: string;
+}
+
+async function searchProducts(
+  filters: MarketFilters,
+  cultivarId: string | null,
+  origin: GeoPoint | null,
+  cursor: SearchCursor | null
+) {
+  const { data, error } = await supabase.rpc("search_products", {
+    ...toSearchArgs(filters, origin),
+    _cultivar_id: cultivarId ?? undefined,
+    _sort: filters.sort,
+    _cursor_key: cursor?.key,
+    _cursor_id: cursor?.id,
+    _limit: SEARCH_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+async function fetchCultivarProducts(cultivarId: string) {
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, name, price_per_unit, unit, available_quantity, harvest_date, image_url, farm_profiles (farm_name, farm_location)")
+    .eq("cultivar_id", cultivarId)
+    .eq("is_active", true)
+    .gt("available_quantity", 0)
+    .order("harvest_date", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+async function fetchProduct(productId: string) {
+  const { data, error } = await supabase
+    .from("products")
+    .select(`
+      *,
+      farm_profiles (user_id, farm_name, farm_location, rating, total_reviews, verified),
+      detection_runs (ripeness_stage, defects, quality, cultivars (name, slug))
+    `)
+    .eq("id", productId)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function fetchFarmProducts(farmId: string) {
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, name, product_type, price_per_unit, available_quantity, unit, harvest_date, is_active")
+    .eq("farm_id", farmId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
+async function fetchEditableProduct(productId: string, farmId: string) {
+  const { data, error } = await supabase
+    .from("products")
+    .select("*")
+    .eq("id", productId)
+    .eq("farm_id", farmId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export type MarketProduct = Awaited<ReturnType<typeof searchProducts>>[number];
+export type ProductWithFarm = NonNullable<Awaited<ReturnType<typeof fetchProduct>>>;
+export type FarmProduct = Awaited<ReturnType<typeof fetchFarmProducts>>[number];
+
+/**
+ * Marketplace search, one page of listings at a time. `cultivarId` is resolved
+ * from `filters.cultivarSlug` by the caller; pass undefined until it is known.
+ * Distances are measured from `origin` (see useMarketOrigin), likewise undefined while loading.
+ */
+export function useMarketSearch(
+  filters: MarketFilters,
+  cultivarId: string | null | undefined,
+  origin: GeoPoint | null | undefined
+) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.products.search({ ...filters, cultivarId, origin }),
+    queryFn: ({ pageParam }) => searchProducts(filters, cultivarId ?? null, origin ?? null, pageParam),
+    initialPageParam: null as SearchCursor | null,
+    getNextPageParam: (lastPage) => {
+      if (lastPage.length < SEARCH_PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { key: last.sort_key, id: last.id };
+    },
+    enabled: cultivarId !== undefined && origin !== undefined,
+  });
+}
+
+/** Matching listings per cultivar id, for the marketplace cultivar facet. */
+export function useCultivarCounts(filters: MarketFilters, origin: GeoPoint | null | undefined) {
+  const { cultivarSlug: _cultivarSlug, sort: _sort, ...facetFilters } = filters;
+
+  return useQuery({
+    queryKey: queryKeys.products.cultivarCounts({ ...facetFilters, origin }),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("search_product_cultivar_counts", toSearchArgs(filters, origin ?? null));
+      if (error) throw error;
+      return Object.fromEntries(data.map((row) => [row.cultivar_id, row.product_count]));
+    },
+    enabled: origin !== undefined,
+  });
+}
+
+/** In-stock listings of one cultivar, soonest harvest first. */
+export function useCultivarProducts(cultivarId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.cultivar(cultivarId),
+    queryFn: () => fetchCultivarProducts(cultivarId!),
+    enabled: !!cultivarId,
+  });
+}
+
+/** A single active listing with its farm and attached detection. */
+export function useProduct(productId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.detail(productId),
+    queryFn: () => fetchProduct(productId!),
+    enabled: !!productId,
+  });
+}
+
+/** Every listing of a farm, active or not. `farmId` is the owner's user id. */
+export function useFarmProducts(farmId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.farm(farmId),
+    queryFn: () => fetchFarmProducts(farmId!),
+    enabled: !!farmId,
+  });
+}
+
+/** A farm's own listing with every editable column, or null if it belongs to another farm. */
+export function useEditableProduct(productId: string | undefined, farmId: string | undefined) {
+  return useQuery({
+    queryKey: [...queryKeys.products.detail(productId), "edit"],
+    queryFn: () => fetchEditableProduct(productId!, farmId!),
+    enabled: !!productId && !!farmId,
+  });
+}
+
+/** Number of in-progress orders for a listing; price and quantity are locked while it is above zero. */
+export function useProductOpenOrders(productId: string | undefined) {
+  return useQuery({
+    queryKey: [...queryKeys.products.detail(productId), "open-orders"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("product_open_order_count", {
+        _product_id: productId!,
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!productId,
+    staleTime: 0,
+  });
+}
+
+export function useCreateProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (product: TablesInsert<"products">) => {
+      const { data, error } = await supabase.from("products").insert(product).select("id").single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+  });
+}
+
+export function useUpdateProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ productId, updates }: { productId: string; updates: TablesUpdate<"products"> }) => {
+      const { error } = await supabase.from("products").update(updates).eq("id", productId);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+  });
+}
+
+/** Activates or deactivates a listing, updating the farm's list optimistically. */
+export function useSetProductActive(farmId: string | undefined) {
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.products.farm(farmId);
+
+  return useMutation({
+    mutationFn: async ({ productId, isActive }: { productId: string; isActive: boolean }) => {
+      const { error } = await supabase
+        .from("products")
+        .update({ is_active: isActive })
+        .eq("id", productId);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ productId, isActive }) => {
+      await queryClient.cancelQueries({ queryKey: listKey });
+      const previous = queryClient.getQueryData<FarmProduct[]>(listKey);
+      queryClient.setQueryData<FarmProduct[]>(listKey, (products) =>
+        products?.map((p) => (p.id === productId ? { ...p, is_active: isActive } : p))
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(listKey, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+  });
+}
@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { queryKeys } from "@/lib/query-keys";
+import { useSession } from "@/hooks/use-session";
+
+export type UserRole = Database["public"]["Enums"]["user_role"];
+
+/** Roles granted to the signed-in user in `user_roles`. */
+export function useRoles() {
+  const { user, isLoading: sessionLoading } = useSession();
+
+  const query = useQuery({
+    queryKey: queryKeys.roles(user?.id),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user!.id);
+
+      if (error) throw error;
+      return data.map((r) => r.role);
+    },
+    enabled: !!user,
+    // Roles change when an admin approves a farm, so always recheck on mount
+    staleTime: 0,
+  });
+
+  const roles = query.data ?? [];
+
+  return {
+    user,
+    roles,
+    hasRole: (role: UserRole) => roles.includes(role),
+    isLoading: sessionLoading || (!!user && query.isLoading),
+    isFetching: query.isFetching,
+    error: query.error,
+  };
+}
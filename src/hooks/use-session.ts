@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query-keys";
+
+/** Current auth session, kept in sync with sign-in and sign-out. */
+export function useSession() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      queryClient.setQueryData(queryKeys.session, session);
+    });
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+
+  const query = useQuery({
+    queryKey: queryKeys.session,
+    queryFn: async () => {
+      const { data: { session }, error } = await supabase.auth.getSession();
+      if (error) throw error;
+      return session;
+    },
+    staleTime: Infinity,
+  });
+
+  return {
+    session: query.data ?? null,
+    user: query.data?.user ?? null,
+    isLoading: query.isLoading,
+  };
+}
@@ -14,6 +14,71 @@ export type Database = {
   }
   public: {
     Tables: {
+      addresses: {
+        Row: {
+          address_line: string
+          created_at: string
+          district: string
+          id: string
+          is_default: boolean
+          label: string
+          latitude: number | null
+          longitude: number | null
+          needs_review: boolean
+          phone: string
+          postcode: string | null
+          province_code: string | null
+          recipient_name: string
+          subdistrict: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address_line: string
+          created_at?: string
+          district: string
+          id?: string
+          is_default?: boolean
+          label?: string
+          latitude?: number | null
+          longitude?: number | null
+          needs_review?: boolean
+          phone: string
+          postcode?: string | null
+          province_code?: string | null
+          recipient_name: string
+          subdistrict: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address_line?: string
+          created_at?: string
+          district?: string
+          id?: string
+          is_default?: boolean
+          label?: string
+          latitude?: number | null
+          longitude?: number | null
+          needs_review?: boolean
+          phone?: string
+          postcode?: string | null
+          province_code?: string | null
+          recipient_name?: string
+          subdistrict?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "addresses_province_code_fkey"
+            columns: ["province_code"]
+            isOneToOne: false
+            referencedRelation: "thai_provinces"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
       cultivars: {
         Row: {
           characteristics: string | null
@@ -56,15 +121,69 @@ export type Database = {
         }
         Relationships: []
       }
+      detection_runs: {
+        Row: {
+          confidence: number
+          created_at: string | null
+          cultivar_id: string | null
+          defects: string[]
+          id: string
+          image_path: string
+          model: string
+          quality: string
+          ripeness_stage: Database["public"]["Enums"]["ripeness_stage"]
+          user_id: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string | null
+          cultivar_id?: string | null
+          defects?: string[]
+          id?: string
+          image_path: string
+          model: string
+          quality: string
+          ripeness_stage: Database["public"]["Enums"]["ripeness_stage"]
+          user_id: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string | null
+          cultivar_id?: string | null
+          defects?: string[]
+          id?: string
+          image_path?: string
+          model?: string
+          quality?: string
+          ripeness_stage?: Database["public"]["Enums"]["ripeness_stage"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "detection_runs_cultivar_id_fkey"
+            columns: ["cultivar_id"]
+            isOneToOne: false
+            referencedRelation: "cultivars"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       farm_profiles: {
         Row: {
           created_at: string | null
+          district: string | null
           farm_description: string | null
           farm_image_url: string | null
           farm_location: string
           farm_name: string
           id: string
+          latitude: number | null
+          longitude: number | null
+          postcode: string | null
+          promptpay_id: string | null
+          province_code: string | null
           rating: number | null
+          subdistrict: string | null
           total_reviews: number | null
           total_sales: number | null
           updated_at: string | null
@@ -73,12 +192,19 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          district?: string | null
           farm_description?: string | null
           farm_image_url?: string | null
           farm_location: string
           farm_name: string
           id?: string
+          latitude?: number | null
+          longitude?: number | null
+          postcode?: string | null
+          promptpay_id?: string | null
+          province_code?: string | null
           rating?: number | null
+          subdistrict?: string | null
           total_reviews?: number | null
           total_sales?: number | null
           updated_at?: string | null
@@ -87,19 +213,34 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          district?: string | null
           farm_description?: string | null
           farm_image_url?: string | null
           farm_location?: string
           farm_name?: string
           id?: string
+          latitude?: number | null
+          longitude?: number | null
+          postcode?: string | null
+          promptpay_id?: string | null
+          province_code?: string | null
           rating?: number | null
+          subdistrict?: string | null
           total_reviews?: number | null
           total_sales?: number | null
           updated_at?: string | null
           user_id?: string
           verified?: boolean | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "farm_profiles_province_code_fkey"
+            columns: ["province_code"]
+            isOneToOne: false
+            referencedRelation: "thai_provinces"
+            referencedColumns: ["code"]
+          },
+        ]
       }
       farm_upgrade_requests: {
         Row: {
@@ -108,6 +249,8 @@ export type Database = {
           farm_location: string
           farm_name: string
           id: string
+          photo_paths: string[]
+          rejection_reason: string | null
           reviewed_at: string | null
           reviewed_by: string | null
           status: string
@@ -119,6 +262,8 @@ export type Database = {
           farm_location: string
           farm_name: string
           id?: string
+          photo_paths?: string[]
+          rejection_reason?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           status?: string
@@ -130,6 +275,8 @@ export type Database = {
           farm_location?: string
           farm_name?: string
           id?: string
+          photo_paths?: string[]
+          rejection_reason?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           status?: string
@@ -178,19 +325,180 @@ export type Database = {
           },
         ]
       }
+      order_deadline_notices: {
+        Row: {
+          created_at: string | null
+          hours_before: number
+          kind: string
+          order_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          hours_before: number
+          kind: string
+          order_id: string
+        }
+        Update: {
+          created_at?: string | null
+          hours_before?: number
+          kind?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_deadline_notices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_events: {
+        Row: {
+          actor: string
+          actor_id: string | null
+          changed_fields: Json
+          created_at: string
+          id: string
+          new_status: Database["public"]["Enums"]["order_status"]
+          old_status: Database["public"]["Enums"]["order_status"] | null
+          order_id: string
+          reason: string | null
+        }
+        Insert: {
+          actor: string
+          actor_id?: string | null
+          changed_fields?: Json
+          created_at?: string
+          id?: string
+          new_status: Database["public"]["Enums"]["order_status"]
+          old_status?: Database["public"]["Enums"]["order_status"] | null
+          order_id: string
+          reason?: string | null
+        }
+        Update: {
+          actor?: string
+          actor_id?: string | null
+          changed_fields?: Json
+          created_at?: string
+          id?: string
+          new_status?: Database["public"]["Enums"]["order_status"]
+          old_status?: Database["public"]["Enums"]["order_status"] | null
+          order_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_expiry_rules: {
+        Row: {
+          created_at: string | null
+          farm_id: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          reminder_hours: number[]
+          updated_at: string | null
+          window_hours: number
+        }
+        Insert: {
+          created_at?: string | null
+          farm_id?: string | null
+          id?: string
+          is_active?: boolean
+          kind: string
+          reminder_hours?: number[]
+          updated_at?: string | null
+          window_hours: number
+        }
+        Update: {
+          created_at?: string | null
+          farm_id?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          reminder_hours?: number[]
+          updated_at?: string | null
+          window_hours?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_expiry_rules_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farm_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          order_id: string
+          product_id: string
+          quantity: number
+          subtotal: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          order_id: string
+          product_id: string
+          quantity: number
+          subtotal: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          order_id?: string
+          product_id?: string
+          quantity?: number
+          subtotal?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
           cancellation_reason: string | null
           cancelled_at: string | null
+          checkout_id: string
           confirmed_at: string | null
           created_at: string | null
           delivered_at: string | null
           delivery_address: string
           delivery_notes: string | null
+          delivery_snapshot: Json | null
           farm_id: string
           id: string
-          product_id: string
-          quantity: number
+          paid_at: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"]
           shipped_at: string | null
           status: Database["public"]["Enums"]["order_status"]
           total_price: number
@@ -201,15 +509,17 @@ export type Database = {
         Insert: {
           cancellation_reason?: string | null
           cancelled_at?: string | null
+          checkout_id: string
           confirmed_at?: string | null
           created_at?: string | null
           delivered_at?: string | null
           delivery_address: string
           delivery_notes?: string | null
+          delivery_snapshot?: Json | null
           farm_id: string
           id?: string
-          product_id: string
-          quantity: number
+          paid_at?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"]
           shipped_at?: string | null
           status?: Database["public"]["Enums"]["order_status"]
           total_price: number
@@ -220,15 +530,17 @@ export type Database = {
         Update: {
           cancellation_reason?: string | null
           cancelled_at?: string | null
+          checkout_id?: string
           confirmed_at?: string | null
           created_at?: string | null
           delivered_at?: string | null
           delivery_address?: string
           delivery_notes?: string | null
+          delivery_snapshot?: Json | null
           farm_id?: string
           id?: string
-          product_id?: string
-          quantity?: number
+          paid_at?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"]
           shipped_at?: string | null
           status?: Database["public"]["Enums"]["order_status"]
           total_price?: number
@@ -238,10 +550,57 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "orders_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "orders_farm_id_fkey"
+            columns: ["farm_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "farm_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          order_id: string
+          rejection_reason: string | null
+          slip_path: string
+          status: Database["public"]["Enums"]["payment_slip_status"]
+          user_id: string
+          verification_ref: string | null
+          verified_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          id?: string
+          order_id: string
+          rejection_reason?: string | null
+          slip_path: string
+          status?: Database["public"]["Enums"]["payment_slip_status"]
+          user_id: string
+          verification_ref?: string | null
+          verified_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          order_id?: string
+          rejection_reason?: string | null
+          slip_path?: string
+          status?: Database["public"]["Enums"]["payment_slip_status"]
+          user_id?: string
+          verification_ref?: string | null
+          verified_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
             referencedColumns: ["id"]
           },
         ]
@@ -252,15 +611,18 @@ export type Database = {
           created_at: string | null
           cultivar_id: string | null
           description: string | null
+          detection_run_id: string | null
           expiry_date: string | null
           farm_id: string
           harvest_date: string
           id: string
           image_url: string | null
+          image_urls: string[]
           is_active: boolean | null
           name: string
           price_per_unit: number
           product_type: Database["public"]["Enums"]["product_type"]
+          search_text: string | null
           unit: string
           updated_at: string | null
         }
@@ -269,15 +631,18 @@ export type Database = {
           created_at?: string | null
           cultivar_id?: string | null
           description?: string | null
+          detection_run_id?: string | null
           expiry_date?: string | null
           farm_id: string
           harvest_date: string
           id?: string
           image_url?: string | null
+          image_urls?: string[]
           is_active?: boolean | null
           name: string
           price_per_unit: number
           product_type: Database["public"]["Enums"]["product_type"]
+          search_text?: string | null
           unit?: string
           updated_at?: string | null
         }
@@ -286,15 +651,18 @@ export type Database = {
           created_at?: string | null
           cultivar_id?: string | null
           description?: string | null
+          detection_run_id?: string | null
           expiry_date?: string | null
           farm_id?: string
           harvest_date?: string
           id?: string
           image_url?: string | null
+          image_urls?: string[]
           is_active?: boolean | null
           name?: string
           price_per_unit?: number
           product_type?: Database["public"]["Enums"]["product_type"]
+          search_text?: string | null
           unit?: string
           updated_at?: string | null
         }
@@ -306,11 +674,24 @@ export type Database = {
             referencedRelation: "cultivars"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "products_detection_run_id_fkey"
+            columns: ["detection_run_id"]
+            isOneToOne: false
+            referencedRelation: "detection_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farm_profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
       profiles: {
         Row: {
-          address: string | null
           avatar_url: string | null
           created_at: string | null
           full_name: string
@@ -319,7 +700,6 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
-          address?: string | null
           avatar_url?: string | null
           created_at?: string | null
           full_name: string
@@ -328,7 +708,6 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
-          address?: string | null
           avatar_url?: string | null
           created_at?: string | null
           full_name?: string
@@ -367,6 +746,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "reviews_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farm_profiles"
+            referencedColumns: ["user_id"]
+          },
           {
             foreignKeyName: "reviews_order_id_fkey"
             columns: ["order_id"]
@@ -376,6 +762,24 @@ export type Database = {
           },
         ]
       }
+      thai_provinces: {
+        Row: {
+          code: string
+          name: string
+          thai_name: string
+        }
+        Insert: {
+          code: string
+          name: string
+          thai_name: string
+        }
+        Update: {
+          code?: string
+          name?: string
+          thai_name?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -402,6 +806,52 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      cancel_order: {
+        Args: {
+          _order_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      distance_km: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _lng1: number
+          _lng2: number
+        }
+        Returns: number
+      }
+      due_order_reminders: {
+        Args: {
+          _deadline: string
+          _kind: string
+          _now: string
+          _order_id: string
+          _reminder_hours: number[]
+        }
+        Returns: number[]
+      }
+      format_address: {
+        Args: {
+          _address: Database["public"]["Tables"]["addresses"]["Row"]
+        }
+        Returns: string
+      }
+      format_hours: {
+        Args: {
+          _hours: number
+        }
+        Returns: string
+      }
+      get_farm_order_deadlines: {
+        Args: never
+        Returns: {
+          deadline: string
+          kind: string
+          order_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["user_role"]
@@ -409,6 +859,191 @@ export type Database = {
         }
         Returns: boolean
       }
+      order_expiry_deadlines: {
+        Args: {
+          _farm_id?: string
+        }
+        Returns: {
+          deadline: string
+          farm_id: string
+          kind: string
+          order_id: string
+          reminder_hours: number[]
+          user_id: string
+          window_hours: number
+        }[]
+      }
+      place_checkout: {
+        Args: {
+          _address_id: string
+          _delivery_notes?: string
+          _items: Json
+        }
+        Returns: string
+      }
+      product_open_order_count: {
+        Args: {
+          _product_id: string
+        }
+        Returns: number
+      }
+      refresh_farm_rating: {
+        Args: {
+          _farm_user_id: string
+        }
+        Returns: undefined
+      }
+      refund_order_payment: {
+        Args: {
+          _order_id: string
+        }
+        Returns: undefined
+      }
+      review_farm_upgrade_request: {
+        Args: {
+          _approve: boolean
+          _reason?: string
+          _request_id: string
+        }
+        Returns: undefined
+      }
+      review_payment_slip: {
+        Args: {
+          _approve: boolean
+          _payment_id: string
+          _reason?: string
+        }
+        Returns: undefined
+      }
+      run_order_expiry: {
+        Args: {
+          _after?: string
+          _batch_size?: number
+          _dry_run?: boolean
+          _now?: string
+        }
+        Returns: Json
+      }
+      search_product_cultivar_counts: {
+        Args: {
+          _harvest_from?: string
+          _harvest_to?: string
+          _in_stock?: boolean
+          _max_distance_km?: number
+          _max_price?: number
+          _min_price?: number
+          _origin_lat?: number
+          _origin_lng?: number
+          _product_type?: Database["public"]["Enums"]["product_type"]
+          _query?: string
+          _verified_only?: boolean
+        }
+        Returns: {
+          cultivar_id: string
+          product_count: number
+        }[]
+      }
+      search_products: {
+        Args: {
+          _cultivar_id?: string
+          _cursor_id?: string
+          _cursor_key?: number
+          _harvest_from?: string
+          _harvest_to?: string
+          _in_stock?: boolean
+          _limit?: number
+          _max_distance_km?: number
+          _max_price?: number
+          _min_price?: number
+          _origin_lat?: number
+          _origin_lng?: number
+          _product_type?: Database["public"]["Enums"]["product_type"]
+          _query?: string
+          _sort?: string
+          _verified_only?: boolean
+        }
+        Returns: {
+          available_quantity: number
+          cultivar_id: string | null
+          description: string | null
+          distance_km: number | null
+          farm_id: string
+          farm_latitude: number | null
+          farm_location: string | null
+          farm_longitude: number | null
+          farm_name: string | null
+          farm_rating: number | null
+          farm_verified: boolean
+          harvest_date: string
+          id: string
+          image_url: string | null
+          name: string
+          price_per_unit: number
+          product_type: Database["public"]["Enums"]["product_type"]
+          sort_key: number
+          unit: string
+        }[]
+      }
+      search_products_base: {
+        Args: {
+          _cultivar_id: string
+          _harvest_from: string
+          _harvest_to: string
+          _in_stock: boolean
+          _max_distance_km: number
+          _max_price: number
+          _min_price: number
+          _origin_lat: number
+          _origin_lng: number
+          _product_type: Database["public"]["Enums"]["product_type"]
+          _query: string
+          _verified_only: boolean
+        }
+        Returns: {
+          available_quantity: number
+          cultivar_id: string | null
+          description: string | null
+          distance_km: number | null
+          farm_id: string
+          farm_latitude: number | null
+          farm_location: string | null
+          farm_longitude: number | null
+          farm_name: string | null
+          farm_rating: number | null
+          farm_verified: boolean
+          harvest_date: string
+          id: string
+          image_url: string | null
+          name: string
+          price_per_unit: number
+          product_type: Database["public"]["Enums"]["product_type"]
+          unit: string
+        }[]
+      }
+      settle_payment_slip: {
+        Args: {
+          _payment_id: string
+          _reason?: string
+          _reference?: string
+          _verified: boolean
+        }
+        Returns: Database["public"]["Enums"]["payment_slip_status"]
+      }
+      submit_payment_slip: {
+        Args: {
+          _order_id: string
+          _slip_path: string
+        }
+        Returns: string
+      }
+      submit_review: {
+        Args: {
+          _comment?: string
+          _order_id: string
+          _rating: number
+        }
+        Returns: string
+      }
     }
     Enums: {
       order_status:
@@ -418,7 +1053,10 @@ export type Database = {
         | "delivered"
         | "cancelled"
         | "reviewed"
+      payment_slip_status: "pending" | "verified" | "rejected"
+      payment_status: "unpaid" | "awaiting_verification" | "paid" | "refunded"
       product_type: "shoot" | "fruit"
+      ripeness_stage: "green" | "turning" | "ripe" | "fully_ripe" | "overripe"
       user_role: "user" | "farm" | "admin"
     }
     CompositeTypes: {
@@ -555,7 +1193,10 @@ export const Constants = {
         "cancelled",
         "reviewed",
       ],
+      payment_slip_status: ["pending", "verified", "rejected"],
+      payment_status: ["unpaid", "awaiting_verification", "paid", "refunded"],
       product_type: ["shoot", "fruit"],
+      ripeness_stage: ["green", "turning", "ripe", "fully_ripe", "overripe"],
       user_role: ["user", "farm", "admin"],
     },
   },
@@ -0,0 +1,50 @@
+import type { Json } from "@/integrations/supabase/types";
+import { getProvince } from "@/lib/thai-provinces";
+
+/** Copy of the buyer's address stored on an order by place_checkout. */
+export interface DeliverySnapshot {
+  label: string;
+  recipient_name: string;
+  phone: string;
+  address_line: string;
+  subdistrict: string;
+  district: string;
+  province_code: string;
+  province_name: string | null;
+  postcode: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface AddressParts {
+  address_line: string;
+  subdistrict: string;
+  district: string;
+  province_code: string | null;
+  postcode: string | null;
+}
+
+/** One-line address, in the same order as public.format_address. */
+export function formatAddress(address: AddressParts) {
+  return [
+    address.address_line,
+    address.subdistrict,
+    address.district,
+    getProvince(address.province_code)?.name,
+    address.postcode,
+  ]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+/** Thai landline or mobile number, digits only. */
+export const isValidPhone = (phone: string) => /^0\d{8,9}$/.test(phone);
+
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, "");
+
+/** Orders placed before the address book have no snapshot. */
+export function parseDeliverySnapshot(value: Json | null): DeliverySnapshot | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as unknown as DeliverySnapshot;
+}
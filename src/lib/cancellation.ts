@@ -0,0 +1,31 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+// Either party may call an order off until the farm ships it; cancel_order enforces the same rule
+export const CANCELLABLE_STATUSES: OrderStatus[] = ["pending", "confirmed"];
+
+export function canCancelOrder(status: OrderStatus): boolean {
+  return CANCELLABLE_STATUSES.includes(status);
+}
+
+export const BUYER_CANCEL_REASONS = [
+  "Ordered by mistake",
+  "Found a better price elsewhere",
+  "Delivery takes too long",
+  "Need to change the delivery address",
+];
+
+export const FARM_REJECT_REASONS = [
+  "Out of stock",
+  "Produce did not pass quality check",
+  "Cannot deliver to this address",
+  "Harvest delayed",
+];
+
+/** Joins a picked reason with the optional details typed under it. */
+export function formatCancelReason(reason: string, details: string): string {
+  const trimmed = details.trim();
+  if (!reason) return trimmed;
+  return trimmed ? `${reason}: ${trimmed}` : reason;
+}
@@ -0,0 +1,28 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type RipenessStage = Database["public"]["Enums"]["ripeness_stage"];
+
+export const ripenessLabels: Record<RipenessStage, string> = {
+  green: "Green",
+  turning: "Turning",
+  ripe: "Ripe",
+  fully_ripe: "Fully ripe",
+  overripe: "Overripe",
+};
+
+export const getRipenessColor = (stage: RipenessStage) => {
+  const colors: Record<RipenessStage, string> = {
+    green: "bg-green-100 text-green-800",
+    turning: "bg-lime-100 text-lime-800",
+    ripe: "bg-yellow-100 text-yellow-800",
+    fully_ripe: "bg-amber-100 text-amber-800",
+    overripe: "bg-orange-100 text-orange-800",
+  };
+  return colors[stage];
+};
+
+/** Turns a defect flag such as "black_spots" into "Black spots" */
+export const formatDefect = (defect: string) => {
+  const words = defect.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
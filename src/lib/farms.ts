@@ -0,0 +1,33 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type FarmProfile = Tables<"farm_profiles">;
+
+// A farm is identified by its owner's auth user id. products.farm_id,
+// orders.farm_id and reviews.farm_id all reference farm_profiles.user_id,
+// never farm_profiles.id.
+
+/** Loads the farm owned by a user, or null if the user has no farm. */
+export async function getFarmByOwner(userId: string): Promise<FarmProfile | null> {
+  const { data, error } = await supabase
+    .from("farm_profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Loads farms by owner id, keyed by that id (the value stored in `farm_id`). */
+export async function getFarmsByOwners(userIds: string[]): Promise<Record<string, FarmProfile>> {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("farm_profiles")
+    .select("*")
+    .in("user_id", [...new Set(userIds)]);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((f) => [f.user_id, f]));
+}
@@ -0,0 +1,157 @@
+import { getProvince } from "@/lib/thai-provinces";
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Address columns shared by farm_profiles and addresses. District and
+ * subdistrict are typed in; only provinces come from a fixed list.
+ */
+export interface StructuredAddress {
+  subdistrict: string;
+  district: string;
+  province_code: string;
+  postcode: string;
+}
+
+export interface AddressLocation extends StructuredAddress {
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface GeocodeResult extends GeoPoint {
+  /** "province" results are the province centre, not the address itself. */
+  precision: "address" | "province";
+  provider: string;
+}
+
+/**
+ * A geocoding backend. Providers return null when they cannot place the
+ * address; geocodeAddress then falls back to the offline province table.
+ */
+export interface Geocoder {
+  name: string;
+  geocode(address: StructuredAddress): Promise<GeocodeResult | null>;
+}
+
+/** Offline provider: places an address at the centre of its province. */
+export const provinceCentroidGeocoder: Geocoder = {
+  name: "province-centroid",
+  async geocode(address) {
+    const province = getProvince(address.province_code);
+    if (!province) return null;
+
+    return {
+      latitude: province.latitude,
+      longitude: province.longitude,
+      precision: "province",
+      provider: this.name,
+    };
+  },
+};
+
+/** OpenStreetMap Nominatim, or any server exposing its structured search API. */
+export function createNominatimGeocoder(baseUrl = "https://nominatim.openstreetmap.org"): Geocoder {
+  return {
+    name: "nominatim",
+    async geocode(address) {
+      const province = getProvince(address.province_code);
+      if (!province) return null;
+
+      const params = new URLSearchParams({
+        format: "jsonv2",
+        limit: "1",
+        countrycodes: "th",
+        state: province.name,
+      });
+      if (address.district) params.set("county", address.district);
+      if (address.subdistrict) params.set("city", address.subdistrict);
+      if (address.postcode) params.set("postalcode", address.postcode);
+
+      const response = await fetch(`${baseUrl}/search?${params}`, {
+        headers: { Accept: "application/json" },
+      });
+      if (!response.ok) return null;
+
+      const [match] = (await response.json()) as { lat: string; lon: string }[];
+      if (!match) return null;
+
+      return {
+        latitude: parseFloat(match.lat),
+        longitude: parseFloat(match.lon),
+        precision: "address",
+        provider: this.name,
+      };
+    },
+  };
+}
+
+/** The provider selected by VITE_GEOCODER; the offline table unless configured. */
+export function getGeocoder(): Geocoder {
+  switch (import.meta.env.VITE_GEOCODER) {
+    case "nominatim":
+      return createNominatimGeocoder(import.meta.env.VITE_GEOCODER_URL || undefined);
+    default:
+      return provinceCentroidGeocoder;
+  }
+}
+
+/**
+ * Resolves coordinates for an address with the configured provider. Network
+ * providers are best effort, so failures fall back to the province centre.
+ */
+export async function geocodeAddress(
+  address: StructuredAddress,
+  geocoder: Geocoder = getGeocoder()
+): Promise<GeocodeResult | null> {
+  if (geocoder !== provinceCentroidGeocoder) {
+    try {
+      const result = await geocoder.geocode(address);
+      if (result) return result;
+    } catch (error) {
+      console.warn(`Geocoder ${geocoder.name} failed, using province centre`, error);
+    }
+  }
+
+  return provinceCentroidGeocoder.geocode(address);
+}
+
+/**
+ * Fills in coordinates for an address that has none. Coordinates already set,
+ * e.g. from the device, are kept; editing the address clears them.
+ */
+export async function resolveCoordinates(location: AddressLocation): Promise<AddressLocation> {
+  if (location.latitude !== null && location.longitude !== null) return location;
+  if (!location.province_code) return { ...location, latitude: null, longitude: null };
+
+  const result = await geocodeAddress(location);
+  return {
+    ...location,
+    latitude: result?.latitude ?? null,
+    longitude: result?.longitude ?? null,
+  };
+}
+
+export const isValidPostcode = (postcode: string) => /^[1-9]\d{4}$/.test(postcode);
+
+export const formatDistance = (km: number) =>
+  km < 1 ? "< 1 km" : `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+
+/** Reads the device position; rejects if the browser denies or lacks geolocation. */
+export function getDevicePosition(): Promise<GeoPoint> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location is not available in this browser"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => reject(new Error("Could not get your location")),
+      { enableHighAccuracy: false, timeout: 10_000, maximumAge: 5 * 60_000 }
+    );
+  });
+}
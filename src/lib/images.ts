@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ImageBucket = "product-images" | "profile-images";
+
+const FULL_SIZE = 1600;
+const THUMBNAIL_SIZE = 400;
+const JPEG_QUALITY = 0.85;
+const THUMBNAIL_SUFFIX = ".thumb.jpg";
+
+// Phone photos are often 10+ MB before they are resized
+export const MAX_SOURCE_IMAGE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Scales an image to fit within `maxDimension` and re-encodes it as JPEG.
+ * Drawing through a canvas drops EXIF metadata such as GPS coordinates, while
+ * createImageBitmap applies the EXIF orientation first so photos stay upright.
+ */
+export async function resizeImage(file: Blob, maxDimension: number): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Image resizing is not supported in this browser");
+
+  // JPEG has no transparency, so PNG cut-outs get a white background
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      "image/jpeg",
+      JPEG_QUALITY
+    );
+  });
+}
+
+/**
+ * Uploads a resized copy of `file` and a thumbnail next to it under the
+ * user's folder. Returns the public URL of the full-size image.
+ */
+export async function uploadImage(bucket: ImageBucket, userId: string, file: File) {
+  const [full, thumbnail] = await Promise.all([
+    resizeImage(file, FULL_SIZE),
+    resizeImage(file, THUMBNAIL_SIZE),
+  ]);
+
+  const basePath = `${userId}/${crypto.randomUUID()}`;
+  const storage = supabase.storage.from(bucket);
+
+  const { error: fullError } = await storage.upload(`${basePath}.jpg`, full, {
+    contentType: "image/jpeg",
+  });
+  if (fullError) throw fullError;
+
+  const { error: thumbnailError } = await storage.upload(`${basePath}${THUMBNAIL_SUFFIX}`, thumbnail, {
+    contentType: "image/jpeg",
+  });
+  if (thumbnailError) throw thumbnailError;
+
+  return storage.getPublicUrl(`${basePath}.jpg`).data.publicUrl;
+}
+
+/** Thumbnail for an image uploaded by `uploadImage`; other URLs are returned as is. */
+export function getThumbnailUrl(url: string) {
+  const isUploaded = /\/storage\/v1\/object\/public\/(product|profile)-images\//.test(url);
+  return isUploaded && url.endsWith(".jpg") ? url.replace(/\.jpg$/, THUMBNAIL_SUFFIX) : url;
+}
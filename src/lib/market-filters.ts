@@ -0,0 +1,80 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type ProductType = Database["public"]["Enums"]["product_type"];
+
+export type MarketSort = "fresh" | "price_asc" | "price_desc" | "rating" | "distance";
+
+export const marketSortLabels: Record<MarketSort, string> = {
+  fresh: "Freshest harvest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  rating: "Top rated farms",
+  distance: "Nearest farms",
+};
+
+export const MARKET_RADIUS_OPTIONS = [10, 25, 50, 100, 200];
+
+/** Marketplace search state. The URL is the source of truth, see parseMarketParams. */
+export interface MarketFilters {
+  query: string;
+  productType: ProductType | null;
+  cultivarSlug: string | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  harvestFrom: string | null;
+  harvestTo: string | null;
+  verifiedOnly: boolean;
+  inStock: boolean;
+  /** Only farms within this many km of the buyer, see useMarketOrigin. */
+  radiusKm: number | null;
+  sort: MarketSort;
+}
+
+const parsePrice = (value: string | null) => {
+  if (!value) return null;
+  const price = parseFloat(value);
+  return isNaN(price) || price < 0 ? null : price;
+};
+
+const parseDate = (value: string | null) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+
+export function parseMarketParams(params: URLSearchParams): MarketFilters {
+  const type = params.get("type");
+  const sort = params.get("sort");
+  const radius = parseInt(params.get("km") ?? "");
+
+  return {
+    query: params.get("q") ?? "",
+    productType: type === "fruit" || type === "shoot" ? type : null,
+    cultivarSlug: params.get("cultivar"),
+    minPrice: parsePrice(params.get("min")),
+    maxPrice: parsePrice(params.get("max")),
+    harvestFrom: parseDate(params.get("from")),
+    harvestTo: parseDate(params.get("to")),
+    verifiedOnly: params.get("verified") === "1",
+    // Sold-out listings are hidden unless the buyer asks for them
+    inStock: params.get("stock") !== "all",
+    radiusKm: radius > 0 ? radius : null,
+    sort: sort && Object.prototype.hasOwnProperty.call(marketSortLabels, sort) ? (sort as MarketSort) : "fresh",
+  };
+}
+
+/** Inverse of parseMarketParams; defaults are left out to keep links short. */
+export function toMarketParams(filters: MarketFilters) {
+  const params = new URLSearchParams();
+
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  if (filters.productType) params.set("type", filters.productType);
+  if (filters.cultivarSlug) params.set("cultivar", filters.cultivarSlug);
+  if (filters.minPrice !== null) params.set("min", String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set("max", String(filters.maxPrice));
+  if (filters.harvestFrom) params.set("from", filters.harvestFrom);
+  if (filters.harvestTo) params.set("to", filters.harvestTo);
+  if (filters.verifiedOnly) params.set("verified", "1");
+  if (!filters.inStock) params.set("stock", "all");
+  if (filters.radiusKm !== null) params.set("km", String(filters.radiusKm));
+  if (filters.sort !== "fresh") params.set("sort", filters.sort);
+
+  return params;
+}
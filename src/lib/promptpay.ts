@@ -0,0 +1,76 @@
+// Thai PromptPay QR payloads (EMVCo merchant-presented mode).
+// See the Bank of Thailand "Thai QR Code Payment" standard.
+
+const PROMPTPAY_AID = "A000000677010111";
+const CURRENCY_THB = "764";
+const COUNTRY_TH = "TH";
+
+const ID_PHONE = "01";
+const ID_NATIONAL = "02";
+const ID_EWALLET = "03";
+
+function field(id: string, value: string) {
+  return id + value.length.toString().padStart(2, "0") + value;
+}
+
+/** CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF), as required by EMVCo tag 63. */
+export function crc16(payload: string) {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+export function normalizePromptPayId(target: string) {
+  return target.replace(/[^0-9]/g, "");
+}
+
+/** Accepts a Thai mobile number (10 digits), national/tax ID (13) or e-wallet ID (15). */
+export function isValidPromptPayId(target: string) {
+  const digits = normalizePromptPayId(target);
+  return (
+    (digits.length === 10 && digits.startsWith("0")) ||
+    digits.length === 13 ||
+    digits.length === 15
+  );
+}
+
+function accountField(target: string) {
+  const digits = normalizePromptPayId(target);
+
+  if (digits.length === 15) {
+    return field(ID_EWALLET, digits);
+  }
+  if (digits.length === 13) {
+    return field(ID_NATIONAL, digits);
+  }
+  // Mobile numbers are sent as 0066 + number without the leading zero
+  return field(ID_PHONE, ("66" + digits.replace(/^0/, "")).padStart(13, "0"));
+}
+
+/**
+ * Builds the string to encode in a PromptPay QR code. With an amount the QR is
+ * single-use ("dynamic") and the payer's banking app pre-fills the total.
+ */
+export function generatePromptPayPayload(target: string, amount?: number) {
+  if (!isValidPromptPayId(target)) {
+    throw new Error("Invalid PromptPay ID");
+  }
+
+  const payload = [
+    field("00", "01"),
+    field("01", amount ? "12" : "11"),
+    field("29", field("00", PROMPTPAY_AID) + accountField(target)),
+    field("53", CURRENCY_THB),
+    amount ? field("54", amount.toFixed(2)) : "",
+    field("58", COUNTRY_TH),
+  ].join("");
+
+  const withCrcTag = payload + "6304";
+  return withCrcTag + crc16(withCrcTag);
+}
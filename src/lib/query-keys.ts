@@ -0,0 +1,30 @@
+// Query keys shared by the data hooks. Lists are nested under their entity so a
+// mutation can invalidate every cached list with `queryKeys.products.all`.
+export const queryKeys = {
+  session: ["session"] as const,
+  roles: (userId: string | undefined) => ["roles", userId] as const,
+  addresses: (userId: string | undefined) => ["addresses", userId] as const,
+  farmProfile: (userId: string | undefined) => ["farm-profile", userId] as const,
+  detectionRuns: (userId: string | undefined) => ["detection-runs", userId] as const,
+  cultivars: ["cultivars"] as const,
+  products: {
+    all: ["products"] as const,
+    search: (filters: object) => ["products", "search", filters] as const,
+    cultivarCounts: (filters: object) => ["products", "cultivar-counts", filters] as const,
+    farm: (farmId: string | undefined) => ["products", "farm", farmId] as const,
+    cultivar: (cultivarId: string | undefined) => ["products", "cultivar", cultivarId] as const,
+    detail: (productId: string | undefined) => ["products", "detail", productId] as const,
+  },
+  orders: {
+    all: ["orders"] as const,
+    buyer: (userId: string | undefined) => ["orders", "buyer", userId] as const,
+    buyerHistory: (userId: string | undefined, status: string | null) =>
+      ["orders", "buyer", userId, "history", status] as const,
+    buyerDetail: (orderId: string | undefined) => ["orders", "buyer-detail", orderId] as const,
+    farmLists: ["orders", "farm"] as const,
+    farm: (farmId: string | undefined) => ["orders", "farm", farmId] as const,
+    detail: (orderId: string | undefined) => ["orders", "detail", orderId] as const,
+    events: (orderId: string | undefined) => ["orders", "events", orderId] as const,
+    deadlines: (farmId: string | undefined) => ["orders", "deadlines", farmId] as const,
+  },
+};
@@ -0,0 +1,96 @@
+/** A Thai province, identified by its two-digit TIS 1099 code. */
+export interface ThaiProvince {
+  code: string;
+  name: string;
+  thaiName: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Coordinates are the provincial seat (amphoe mueang), which is close enough to
+// place a farm or buyer on the map and rank by distance when nothing better is known.
+export const THAI_PROVINCES: ThaiProvince[] = [
+  { code: "10", name: "Bangkok", thaiName: "กรุงเทพมหานคร", latitude: 13.7563, longitude: 100.5018 },
+  { code: "11", name: "Samut Prakan", thaiName: "สมุทรปราการ", latitude: 13.5991, longitude: 100.5998 },
+  { code: "12", name: "Nonthaburi", thaiName: "นนทบุรี", latitude: 13.8621, longitude: 100.5144 },
+  { code: "13", name: "Pathum Thani", thaiName: "ปทุมธานี", latitude: 14.0208, longitude: 100.5250 },
+  { code: "14", name: "Phra Nakhon Si Ayutthaya", thaiName: "พระนครศรีอยุธยา", latitude: 14.3532, longitude: 100.5689 },
+  { code: "15", name: "Ang Thong", thaiName: "อ่างทอง", latitude: 14.5896, longitude: 100.4551 },
+  { code: "16", name: "Lopburi", thaiName: "ลพบุรี", latitude: 14.7995, longitude: 100.6534 },
+  { code: "17", name: "Sing Buri", thaiName: "สิงห์บุรี", latitude: 14.8936, longitude: 100.3967 },
+  { code: "18", name: "Chai Nat", thaiName: "ชัยนาท", latitude: 15.1852, longitude: 100.1251 },
+  { code: "19", name: "Saraburi", thaiName: "สระบุรี", latitude: 14.5289, longitude: 100.9101 },
+  { code: "20", name: "Chonburi", thaiName: "ชลบุรี", latitude: 13.3611, longitude: 100.9847 },
+  { code: "21", name: "Rayong", thaiName: "ระยอง", latitude: 12.6814, longitude: 101.2816 },
+  { code: "22", name: "Chanthaburi", thaiName: "จันทบุรี", latitude: 12.6113, longitude: 102.1035 },
+  { code: "23", name: "Trat", thaiName: "ตราด", latitude: 12.2428, longitude: 102.5175 },
+  { code: "24", name: "Chachoengsao", thaiName: "ฉะเชิงเทรา", latitude: 13.6904, longitude: 101.0779 },
+  { code: "25", name: "Prachin Buri", thaiName: "ปราจีนบุรี", latitude: 14.0509, longitude: 101.3727 },
+  { code: "26", name: "Nakhon Nayok", thaiName: "นครนายก", latitude: 14.2069, longitude: 101.2131 },
+  { code: "27", name: "Sa Kaeo", thaiName: "สระแก้ว", latitude: 13.8240, longitude: 102.0646 },
+  { code: "30", name: "Nakhon Ratchasima", thaiName: "นครราชสีมา", latitude: 14.9799, longitude: 102.0978 },
+  { code: "31", name: "Buriram", thaiName: "บุรีรัมย์", latitude: 14.9930, longitude: 103.1029 },
+  { code: "32", name: "Surin", thaiName: "สุรินทร์", latitude: 14.8818, longitude: 103.4936 },
+  { code: "33", name: "Sisaket", thaiName: "ศรีสะเกษ", latitude: 15.1186, longitude: 104.3220 },
+  { code: "34", name: "Ubon Ratchathani", thaiName: "อุบลราชธานี", latitude: 15.2287, longitude: 104.8564 },
+  { code: "35", name: "Yasothon", thaiName: "ยโสธร", latitude: 15.7921, longitude: 104.1453 },
+  { code: "36", name: "Chaiyaphum", thaiName: "ชัยภูมิ", latitude: 15.8068, longitude: 102.0316 },
+  { code: "37", name: "Amnat Charoen", thaiName: "อำนาจเจริญ", latitude: 15.8657, longitude: 104.6258 },
+  { code: "38", name: "Bueng Kan", thaiName: "บึงกาฬ", latitude: 18.3609, longitude: 103.6466 },
+  { code: "39", name: "Nong Bua Lam Phu", thaiName: "หนองบัวลำภู", latitude: 17.2218, longitude: 102.4260 },
+  { code: "40", name: "Khon Kaen", thaiName: "ขอนแก่น", latitude: 16.4322, longitude: 102.8236 },
+  { code: "41", name: "Udon Thani", thaiName: "อุดรธานี", latitude: 17.4138, longitude: 102.7872 },
+  { code: "42", name: "Loei", thaiName: "เลย", latitude: 17.4860, longitude: 101.7223 },
+  { code: "43", name: "Nong Khai", thaiName: "หนองคาย", latitude: 17.8783, longitude: 102.7413 },
+  { code: "44", name: "Maha Sarakham", thaiName: "มหาสารคาม", latitude: 16.1851, longitude: 103.3027 },
+  { code: "45", name: "Roi Et", thaiName: "ร้อยเอ็ด", latitude: 16.0538, longitude: 103.6520 },
+  { code: "46", name: "Kalasin", thaiName: "กาฬสินธุ์", latitude: 16.4314, longitude: 103.5059 },
+  { code: "47", name: "Sakon Nakhon", thaiName: "สกลนคร", latitude: 17.1546, longitude: 104.1348 },
+  { code: "48", name: "Nakhon Phanom", thaiName: "นครพนม", latitude: 17.3920, longitude: 104.7695 },
+  { code: "49", name: "Mukdahan", thaiName: "มุกดาหาร", latitude: 16.5453, longitude: 104.7235 },
+  { code: "50", name: "Chiang Mai", thaiName: "เชียงใหม่", latitude: 18.7883, longitude: 98.9853 },
+  { code: "51", name: "Lamphun", thaiName: "ลำพูน", latitude: 18.5745, longitude: 99.0087 },
+  { code: "52", name: "Lampang", thaiName: "ลำปาง", latitude: 18.2888, longitude: 99.4909 },
+  { code: "53", name: "Uttaradit", thaiName: "อุตรดิตถ์", latitude: 17.6201, longitude: 100.0993 },
+  { code: "54", name: "Phrae", thaiName: "แพร่", latitude: 18.1446, longitude: 100.1403 },
+  { code: "55", name: "Nan", thaiName: "น่าน", latitude: 18.7756, longitude: 100.7730 },
+  { code: "56", name: "Phayao", thaiName: "พะเยา", latitude: 19.1665, longitude: 99.9019 },
+  { code: "57", name: "Chiang Rai", thaiName: "เชียงราย", latitude: 19.9105, longitude: 99.8406 },
+  { code: "58", name: "Mae Hong Son", thaiName: "แม่ฮ่องสอน", latitude: 19.3020, longitude: 97.9654 },
+  { code: "60", name: "Nakhon Sawan", thaiName: "นครสวรรค์", latitude: 15.7047, longitude: 100.1372 },
+  { code: "61", name: "Uthai Thani", thaiName: "อุทัยธานี", latitude: 15.3835, longitude: 100.0246 },
+  { code: "62", name: "Kamphaeng Phet", thaiName: "กำแพงเพชร", latitude: 16.4828, longitude: 99.5227 },
+  { code: "63", name: "Tak", thaiName: "ตาก", latitude: 16.8840, longitude: 99.1259 },
+  { code: "64", name: "Sukhothai", thaiName: "สุโขทัย", latitude: 17.0056, longitude: 99.8264 },
+  { code: "65", name: "Phitsanulok", thaiName: "พิษณุโลก", latitude: 16.8211, longitude: 100.2659 },
+  { code: "66", name: "Phichit", thaiName: "พิจิตร", latitude: 16.4429, longitude: 100.3488 },
+  { code: "67", name: "Phetchabun", thaiName: "เพชรบูรณ์", latitude: 16.4190, longitude: 101.1591 },
+  { code: "70", name: "Ratchaburi", thaiName: "ราชบุรี", latitude: 13.5283, longitude: 99.8134 },
+  { code: "71", name: "Kanchanaburi", thaiName: "กาญจนบุรี", latitude: 14.0228, longitude: 99.5328 },
+  { code: "72", name: "Suphan Buri", thaiName: "สุพรรณบุรี", latitude: 14.4745, longitude: 100.1177 },
+  { code: "73", name: "Nakhon Pathom", thaiName: "นครปฐม", latitude: 13.8199, longitude: 100.0622 },
+  { code: "74", name: "Samut Sakhon", thaiName: "สมุทรสาคร", latitude: 13.5475, longitude: 100.2745 },
+  { code: "75", name: "Samut Songkhram", thaiName: "สมุทรสงคราม", latitude: 13.4098, longitude: 100.0023 },
+  { code: "76", name: "Phetchaburi", thaiName: "เพชรบุรี", latitude: 13.1119, longitude: 99.9398 },
+  { code: "77", name: "Prachuap Khiri Khan", thaiName: "ประจวบคีรีขันธ์", latitude: 11.8124, longitude: 99.7973 },
+  { code: "80", name: "Nakhon Si Thammarat", thaiName: "นครศรีธรรมราช", latitude: 8.4304, longitude: 99.9631 },
+  { code: "81", name: "Krabi", thaiName: "กระบี่", latitude: 8.0863, longitude: 98.9063 },
+  { code: "82", name: "Phang Nga", thaiName: "พังงา", latitude: 8.4509, longitude: 98.5255 },
+  { code: "83", name: "Phuket", thaiName: "ภูเก็ต", latitude: 7.8804, longitude: 98.3923 },
+  { code: "84", name: "Surat Thani", thaiName: "สุราษฎร์ธานี", latitude: 9.1382, longitude: 99.3217 },
+  { code: "85", name: "Ranong", thaiName: "ระนอง", latitude: 9.9529, longitude: 98.6085 },
+  { code: "86", name: "Chumphon", thaiName: "ชุมพร", latitude: 10.4930, longitude: 99.1800 },
+  { code: "90", name: "Songkhla", thaiName: "สงขลา", latitude: 7.1898, longitude: 100.5954 },
+  { code: "91", name: "Satun", thaiName: "สตูล", latitude: 6.6238, longitude: 100.0674 },
+  { code: "92", name: "Trang", thaiName: "ตรัง", latitude: 7.5563, longitude: 99.6114 },
+  { code: "93", name: "Phatthalung", thaiName: "พัทลุง", latitude: 7.6167, longitude: 100.0740 },
+  { code: "94", name: "Pattani", thaiName: "ปัตตานี", latitude: 6.8696, longitude: 101.2501 },
+  { code: "95", name: "Yala", thaiName: "ยะลา", latitude: 6.5411, longitude: 101.2804 },
+  { code: "96", name: "Narathiwat", thaiName: "นราธิวาส", latitude: 6.4255, longitude: 101.8253 },
+];
+
+const provincesByCode = new Map(THAI_PROVINCES.map((p) => [p.code, p]));
+
+export function getProvince(code: string | null | undefined) {
+  return code ? provincesByCode.get(code) ?? null : null;
+}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useSession } from "@/hooks/use-session";
+import {
+  useAddresses,
+  useDeleteAddress,
+  useSaveAddress,
+  useSetDefaultAddress,
+  type Address,
+  type AddressFields,
+} from "@/hooks/use-addresses";
+import AddressForm from "@/components/AddressForm";
+import { formatAddress } from "@/lib/addresses";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2, MapPin, Pencil, Plus, Star, Trash2 } from "lucide-react";
+
+const Addresses = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const { data: addresses = [], isLoading, error } = useAddresses(user?.id);
+  const saveAddress = useSaveAddress(user?.id);
+  const deleteAddress = useDeleteAddress(user?.id);
+  const setDefaultAddress = useSetDefaultAddress(user?.id);
+  // null: list view, "new": adding, otherwise the address being edited
+  const [editing, setEditing] = useState<Address | "new" | null>(null);
+
+  useEffect(() => {
+    if (error) toast.error("Failed to load addresses");
+  }, [error]);
+
+  const handleSubmit = async (fields: AddressFields) => {
+    try {
+      await saveAddress.mutateAsync({
+        addressId: editing !== "new" ? editing?.id : undefined,
+        fields,
+      });
+      toast.success(editing === "new" ? "Address added" : "Address updated");
+      setEditing(null);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to save address";
+      toast.error(message);
+    }
+  };
+
+  const handleDelete = async (address: Address) => {
+    if (!confirm(`Delete the address for ${address.recipient_name}?`)) return;
+
+    try {
+      await deleteAddress.mutateAsync(address.id);
+      toast.success("Address deleted");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to delete address";
+      toast.error(message);
+    }
+  };
+
+  const handleSetDefault = async (address: Address) => {
+    try {
+      await setDefaultAddress.mutateAsync(address.id);
+      toast.success(`${address.label} is now your default address`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to update address";
+      toast.error(message);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/profile")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Delivery Addresses
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-4">
+          {editing ? (
+            <Card className="p-6">
+              <h2 className="text-xl font-bold mb-6">
+                {editing === "new" ? "New Address" : "Edit Address"}
+              </h2>
+              <AddressForm
+                address={editing === "new" ? undefined : editing}
+                defaultRecipient={user?.user_metadata?.full_name}
+                submitting={saveAddress.isPending}
+                submitLabel={editing === "new" ? "Add Address" : "Save Changes"}
+                onSubmit={handleSubmit}
+                onCancel={() => setEditing(null)}
+              />
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end">
+                <Button onClick={() => setEditing("new")}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Address
+                </Button>
+              </div>
+
+              {addresses.length === 0 ? (
+                <Card className="p-6">
+                  <div className="text-center py-12">
+                    <MapPin className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground">
+                      Save an address to check out faster and find farms near you.
+                    </p>
+                  </div>
+                </Card>
+              ) : (
+                addresses.map((address) => (
+                  <Card key={address.id} className="p-6">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold">{address.label}</h3>
+                          {address.is_default && (
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-primary/10 text-primary">
+                              Default
+                            </span>
+                          )}
+                          {address.needs_review && (
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">
+                              Incomplete
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm">
+                          {address.recipient_name} · {address.phone}
+                        </p>
+                        <p className="text-sm text-muted-foreground">{formatAddress(address)}</p>
+                        {address.needs_review && (
+                          <p className="text-xs text-muted-foreground">
+                            Carried over from your old profile. Check it and save it before using it at checkout.
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing(address)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(address)}
+                          disabled={deleteAddress.isPending}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                    {!address.is_default && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-4"
+                        onClick={() => handleSetDefault(address)}
+                        disabled={setDefaultAddress.isPending}
+                      >
+                        <Star className="w-4 h-4 mr-2" />
+                        Set as Default
+                      </Button>
+                    )}
+                  </Card>
+                ))
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Addresses;
@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { useSession } from "@/hooks/use-session";
+import { useBuyerOrder, useCancelOrder, useUpdateOrderStatus } from "@/hooks/use-orders";
+import { BUYER_CANCEL_REASONS, canCancelOrder } from "@/lib/cancellation";
+import { getThumbnailUrl } from "@/lib/images";
+import { queryKeys } from "@/lib/query-keys";
+import CancelOrderDialog from "@/components/CancelOrderDialog";
+import OrderTimeline from "@/components/OrderTimeline";
+import ReviewDialog from "@/components/ReviewDialog";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import { ArrowLeft, Clock, Loader2, MapPin, Package, Star, Store } from "lucide-react";
+
+const BuyerOrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useSession();
+  const { data: order, isLoading, error } = useBuyerOrder(id, user?.id);
+  const updateOrderStatus = useUpdateOrderStatus();
+  const cancelOrderMutation = useCancelOrder();
+  const [reviewing, setReviewing] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  useEffect(() => {
+    if (error) {
+      toast.error(error.message || "Failed to load order");
+      navigate("/orders");
+    } else if (order === null) {
+      toast.error("Order not found");
+      navigate("/orders");
+    }
+  }, [error, order]);
+
+  const cancelOrder = (reason: string) => {
+    if (!order) return;
+
+    cancelOrderMutation.mutate(
+      { orderId: order.id, reason },
+      {
+        onSuccess: () => {
+          toast.success("Order cancelled");
+          setCancelling(false);
+        },
+        onError: (error) => toast.error(error.message || "Failed to cancel order"),
+      }
+    );
+  };
+
+  const confirmReceipt = () => {
+    if (!order) return;
+    if (!confirm("Confirm that you have received this order?")) return;
+
+    updateOrderStatus.mutate(
+      { orderId: order.id, updates: { status: "delivered" } },
+      {
+        onSuccess: () => toast.success("Thanks! Order marked as delivered"),
+        onError: (error) => toast.error(error.message || "Failed to update order"),
+      }
+    );
+  };
+
+  const getStatusColor = (status: string) => {
+    const colors: Record<string, string> = {
+      pending: "bg-yellow-100 text-yellow-800",
+      confirmed: "bg-blue-100 text-blue-800",
+      shipped: "bg-purple-100 text-purple-800",
+      delivered: "bg-green-100 text-green-800",
+      cancelled: "bg-red-100 text-red-800",
+      reviewed: "bg-emerald-100 text-emerald-800",
+    };
+    return colors[status] || "bg-gray-100 text-gray-800";
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!order) return null;
+
+  const updating = updateOrderStatus.isPending || cancelOrderMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/orders")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Order Details
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {/* Order Header */}
+          <Card className="p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Order ID</p>
+                <p className="font-mono">{order.id}</p>
+              </div>
+              <span className={`px-3 py-1 rounded-full text-sm ${getStatusColor(order.status)}`}>
+                {order.status}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Placed on {new Date(order.created_at).toLocaleString()}
+            </p>
+
+            {order.payment_status === "unpaid" && order.status !== "cancelled" && (
+              <Button
+                className="w-full mt-4"
+                onClick={() => navigate(`/market/checkout/${order.checkout_id}/payment`)}
+              >
+                Pay now
+              </Button>
+            )}
+          </Card>
+
+          {/* History */}
+          <Card className="p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <Clock className="w-5 h-5 text-muted-foreground" />
+              <h3 className="font-semibold">History</h3>
+            </div>
+            <OrderTimeline orderId={order.id} />
+          </Card>
+
+          {/* Farm Contact */}
+          <Card className="p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <Store className="w-5 h-5 text-muted-foreground" />
+              <h3 className="font-semibold">Farm</h3>
+            </div>
+            <div className="space-y-2">
+              <p><strong>Farm:</strong> {order.farm_profiles?.farm_name || "N/A"}</p>
+              {order.farm_profiles?.farm_location && (
+                <p><strong>Location:</strong> {order.farm_profiles.farm_location}</p>
+              )}
+              <p><strong>Contact:</strong> {order.farm_contact?.full_name || "N/A"}</p>
+              <p>
+                <strong>Phone:</strong>{" "}
+                {order.farm_contact?.phone ? (
+                  <a href={`tel:${order.farm_contact.phone}`} className="text-primary hover:underline">
+                    {order.farm_contact.phone}
+                  </a>
+                ) : (
+                  "N/A"
+                )}
+              </p>
+            </div>
+          </Card>
+
+          {/* Delivery Info */}
+          <Card className="p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <MapPin className="w-5 h-5 text-muted-foreground" />
+              <h3 className="font-semibold">Delivery Information</h3>
+            </div>
+            <div className="space-y-2">
+              {order.delivery_snapshot && (
+                <p>
+                  <strong>Recipient:</strong> {order.delivery_snapshot.recipient_name} ·{" "}
+                  {order.delivery_snapshot.phone}
+                </p>
+              )}
+              <p><strong>Address:</strong> {order.delivery_address}</p>
+              {order.delivery_notes && (
+                <p><strong>Notes:</strong> {order.delivery_notes}</p>
+              )}
+              <p><strong>Tracking:</strong> {order.tracking_number || "Not shipped yet"}</p>
+            </div>
+          </Card>
+
+          {/* Product Info */}
+          <Card className="p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <Package className="w-5 h-5 text-muted-foreground" />
+              <h3 className="font-semibold">Order Items</h3>
+            </div>
+            <div className="space-y-3">
+              {order.order_items.map((item) => (
+                <div key={item.id} className="flex items-center gap-4 p-4 bg-muted/50 rounded-lg">
+                  {item.products?.image_url && (
+                    <img
+                      src={getThumbnailUrl(item.products.image_url)}
+                      alt={item.products.name}
+                      className="w-16 h-16 object-cover rounded"
+                    />
+                  )}
+                  <div className="flex-1">
+                    <p className="font-medium">{item.products?.name || "N/A"}</p>
+                    <p className="text-sm text-muted-foreground">
+                      ฿{item.unit_price}/{item.products?.unit} × {item.quantity}
+                    </p>
+                  </div>
+                  <p className="font-semibold">฿{item.subtotal.toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+            <Separator className="my-4" />
+            <div className="flex justify-between font-bold">
+              <span>Total</span>
+              <span>฿{order.total_price.toLocaleString()}</span>
+            </div>
+          </Card>
+
+          {/* Actions */}
+          {canCancelOrder(order.status) && (
+            <Button variant="outline" className="w-full" disabled={updating} onClick={() => setCancelling(true)}>
+              Cancel Order
+            </Button>
+          )}
+
+          {order.status === "shipped" && (
+            <Button className="w-full" disabled={updating} onClick={confirmReceipt}>
+              {updating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirm Receipt
+            </Button>
+          )}
+
+          {order.status === "delivered" && (
+            <Button className="w-full" onClick={() => setReviewing(true)}>
+              <Star className="w-4 h-4 mr-2" />
+              Write a review
+            </Button>
+          )}
+
+          <CancelOrderDialog
+            open={cancelling}
+            onOpenChange={setCancelling}
+            title="Cancel this order?"
+            description={
+              order.payment_status === "unpaid"
+                ? "The farm will be notified and the reserved stock released."
+                : "The farm will be notified and will refund your payment."
+            }
+            reasons={BUYER_CANCEL_REASONS}
+            confirmLabel="Cancel Order"
+            submitting={cancelOrderMutation.isPending}
+            onConfirm={cancelOrder}
+          />
+
+          <ReviewDialog
+            orderId={reviewing ? order.id : null}
+            onOpenChange={setReviewing}
+            onSubmitted={() => queryClient.invalidateQueries({ queryKey: queryKeys.orders.all })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BuyerOrderDetail;
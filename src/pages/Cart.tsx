@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import AddressPicker from "@/components/AddressPicker";
+import { getFarmsByOwners } from "@/lib/farms";
+import { useCart, type CartItem } from "@/hooks/use-cart";
+import { getThumbnailUrl } from "@/lib/images";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2, Minus, Plus, ShoppingCart, Store, Trash2 } from "lucide-react";
+
+interface FarmGroup {
+  farmId: string;
+  farmName: string;
+  items: CartItem[];
+  total: number;
+}
+
+const Cart = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { items, subtotal, updateQuantity, removeItem, replaceItems, clear } = useCart();
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [buyerName, setBuyerName] = useState("");
+  const [farmNames, setFarmNames] = useState<Record<string, string>>({});
+
+  const [formData, setFormData] = useState({
+    address_id: null as string | null,
+    delivery_notes: "",
+  });
+
+  useEffect(() => {
+    loadCart();
+  }, []);
+
+  const loadCart = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (session) {
+        setUserId(session.user.id);
+
+        const { data: profileData } = await supabase
+          .from("profiles")
+          .select("full_name")
+          .eq("id", session.user.id)
+          .maybeSingle();
+
+        setBuyerName(profileData?.full_name || "");
+      }
+
+      if (items.length === 0) return;
+
+      // Refresh prices and stock, dropping anything that is no longer listed
+      const { data: productsData, error: productsError } = await supabase
+        .from("products")
+        .select("id, farm_id, name, unit, price_per_unit, available_quantity, image_url")
+        .in("id", items.map((i) => i.productId))
+        .eq("is_active", true);
+
+      if (productsError) throw productsError;
+
+      const productMap = new Map(productsData?.map((p) => [p.id, p]));
+      const refreshed = items
+        .filter((i) => productMap.get(i.productId)?.available_quantity > 0)
+        .map((i) => {
+          const p = productMap.get(i.productId)!;
+          return {
+            ...i,
+            farmId: p.farm_id,
+            name: p.name,
+            unit: p.unit,
+            pricePerUnit: p.price_per_unit,
+            availableQuantity: p.available_quantity,
+            imageUrl: p.image_url,
+            quantity: Math.min(i.quantity, p.available_quantity),
+          };
+        });
+
+      if (refreshed.length < items.length) {
+        toast.info("Some items are no longer available and were removed from your cart");
+      }
+
+      replaceItems(refreshed);
+
+      const farms = await getFarmsByOwners(refreshed.map((i) => i.farmId));
+      setFarmNames(Object.fromEntries(Object.values(farms).map((f) => [f.user_id, f.farm_name])));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load cart";
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Each farm confirms its own sub-order, so the cart is shown grouped by farm
+  const farmGroups = items.reduce<FarmGroup[]>((groups, item) => {
+    let group = groups.find((g) => g.farmId === item.farmId);
+    if (!group) {
+      group = {
+        farmId: item.farmId,
+        farmName: farmNames[item.farmId] || "Farm",
+        items: [],
+        total: 0,
+      };
+      groups.push(group);
+    }
+    group.items.push(item);
+    group.total += item.pricePerUnit * item.quantity;
+    return groups;
+  }, []);
+
+  const handleCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!userId) return;
+
+    if (items.length === 0) {
+      toast.error("Your cart is empty");
+      return;
+    }
+
+    if (!formData.address_id) {
+      toast.error("Please choose a delivery address");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { data: checkoutId, error } = await supabase.rpc("place_checkout", {
+        _items: items.map((i) => ({ product_id: i.productId, quantity: i.quantity })),
+        _address_id: formData.address_id,
+        _delivery_notes: formData.delivery_notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      clear();
+      toast.success(
+        farmGroups.length > 1
+          ? `${farmGroups.length} orders placed! Please complete payment for each farm.`
+          : "Order placed! Please complete your payment."
+      );
+      navigate(`/market/checkout/${checkoutId}/payment`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to place order";
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/market")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Your Cart
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {items.length === 0 ? (
+            <Card className="p-6">
+              <div className="text-center py-12">
+                <ShoppingCart className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground mb-4">Your cart is empty</p>
+                <Button onClick={() => navigate("/market")}>Browse Marketplace</Button>
+              </div>
+            </Card>
+          ) : (
+            <>
+              {farmGroups.map((group) => (
+                <Card key={group.farmId} className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3">
+                      <Store className="w-5 h-5 text-muted-foreground" />
+                      <h3 className="font-semibold">{group.farmName}</h3>
+                    </div>
+                    <span className="text-sm text-muted-foreground">
+                      ฿{group.total.toLocaleString()}
+                    </span>
+                  </div>
+
+                  <div className="space-y-3">
+                    {group.items.map((item) => (
+                      <div
+                        key={item.productId}
+                        className="flex items-center gap-4 p-4 bg-muted/50 rounded-lg"
+                      >
+                        {item.imageUrl ? (
+                          <img
+                            src={getThumbnailUrl(item.imageUrl)}
+                            alt={item.name}
+                            className="w-16 h-16 object-cover rounded"
+                          />
+                        ) : (
+                          <div className="w-16 h-16 bg-muted rounded flex items-center justify-center">
+                            <span className="text-3xl">🍌</span>
+                          </div>
+                        )}
+                        <div className="flex-1">
+                          <p
+                            className="font-medium cursor-pointer hover:underline"
+                            onClick={() => navigate(`/market/product/${item.productId}`)}
+                          >
+                            {item.name}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            ฿{item.pricePerUnit}/{item.unit} · {item.availableQuantity} available
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={item.quantity <= 1}
+                            onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <Input
+                            type="number"
+                            min="1"
+                            max={item.availableQuantity}
+                            value={item.quantity}
+                            onChange={(e) => updateQuantity(item.productId, parseInt(e.target.value))}
+                            className="w-16 h-8 text-center"
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={item.quantity >= item.availableQuantity}
+                            onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
+                        <p className="font-semibold w-20 text-right">
+                          ฿{(item.pricePerUnit * item.quantity).toLocaleString()}
+                        </p>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeItem(item.productId)}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              ))}
+
+              <Card className="p-6">
+                <h2 className="text-xl font-bold mb-6">Delivery</h2>
+                <form onSubmit={handleCheckout} className="space-y-6">
+                  {userId && (
+                    <div className="space-y-2">
+                      <Label>Delivery Address *</Label>
+                      <AddressPicker
+                        userId={userId}
+                        defaultRecipient={buyerName}
+                        value={formData.address_id}
+                        onChange={(address_id) => setFormData((prev) => ({ ...prev, address_id }))}
+                      />
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="delivery_notes">Delivery Notes</Label>
+                    <Textarea
+                      id="delivery_notes"
+                      value={formData.delivery_notes}
+                      onChange={(e) => setFormData({ ...formData, delivery_notes: e.target.value })}
+                      placeholder="Preferred pickup time, landmarks, contact instructions..."
+                      rows={2}
+                    />
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    {farmGroups.length > 1 && (
+                      <p className="text-sm text-muted-foreground">
+                        Your cart will be split into {farmGroups.length} orders, one per farm.
+                      </p>
+                    )}
+                    <div className="flex justify-between text-lg font-bold">
+                      <span>Total</span>
+                      <span className="text-primary">฿{subtotal.toLocaleString()}</span>
+                    </div>
+                  </div>
+
+                  {userId ? (
+                    <Button type="submit" className="w-full" disabled={submitting}>
+                      {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Place Order
+                    </Button>
+                  ) : (
+                    <Button
+                      type="button"
+                      className="w-full"
+                      onClick={() => navigate("/auth/login", { state: { from: location } })}
+                    >
+                      Sign In to Checkout
+                    </Button>
+                  )}
+                </form>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Cart;
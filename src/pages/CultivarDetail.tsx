@@ -2,12 +2,15 @@ import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, MapPin } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { useCultivarProducts } from "@/hooks/use-products";
+import { getThumbnailUrl } from "@/lib/images";
 import { toast } from "sonner";
 
 interface Cultivar {
   id: string;
+  slug: string;
   name: string;
   thai_name: string;
   description: string;
@@ -21,6 +24,7 @@ const CultivarDetail = () => {
   const navigate = useNavigate();
   const [cultivar, setCultivar] = useState<Cultivar | null>(null);
   const [loading, setLoading] = useState(true);
+  const { data: listings = [] } = useCultivarProducts(cultivar?.id);
 
   useEffect(() => {
     if (slug) {
@@ -124,12 +128,60 @@ const CultivarDetail = () => {
               </div>
 
               <div className="mt-8 pt-6 border-t border-border">
-                <Button onClick={() => navigate("/market")} size="lg">
+                <Button onClick={() => navigate(`/market?cultivar=${cultivar.slug}`)} size="lg">
                   Browse {cultivar.name} Products
                 </Button>
               </div>
             </div>
           </Card>
+
+          {/* Live listings for this cultivar */}
+          <section className="mt-8">
+            <h2 className="text-2xl font-bold mb-4">Available from farms</h2>
+            {listings.length === 0 ? (
+              <Card className="p-6 text-center">
+                <p className="text-muted-foreground">
+                  No farms are selling {cultivar.name} right now. Check back after the next harvest.
+                </p>
+              </Card>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-4">
+                {listings.map((listing) => (
+                  <Card
+                    key={listing.id}
+                    className="p-4 flex items-center gap-4 hover:shadow-soft transition-shadow cursor-pointer"
+                    onClick={() => navigate(`/market/product/${listing.id}`)}
+                  >
+                    {listing.image_url ? (
+                      <img
+                        src={getThumbnailUrl(listing.image_url)}
+                        alt={listing.name}
+                        className="w-16 h-16 object-cover rounded"
+                      />
+                    ) : (
+                      <div className="w-16 h-16 bg-muted rounded flex items-center justify-center">
+                        <span className="text-3xl">🍌</span>
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold truncate">{listing.name}</p>
+                      <p className="text-sm text-muted-foreground flex items-center gap-1 truncate">
+                        <MapPin className="w-3 h-3 shrink-0" />
+                        {listing.farm_profiles?.farm_name || "Farm"} · {listing.farm_profiles?.farm_location || "Unknown"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {listing.available_quantity} {listing.unit} · Harvest{" "}
+                        {new Date(listing.harvest_date).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <p className="font-bold text-primary whitespace-nowrap">
+                      ฿{listing.price_per_unit}/{listing.unit}
+                    </p>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </section>
         </div>
       </div>
     </div>
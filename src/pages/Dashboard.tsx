@@ -1,69 +1,50 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { useFarmProfile } from "@/hooks/use-farm-profile";
+import { useBuyerOrders } from "@/hooks/use-orders";
+import { queryKeys } from "@/lib/query-keys";
+import NotificationBell from "@/components/NotificationBell";
+import ReviewDialog from "@/components/ReviewDialog";
+import DetectionHistory from "@/components/DetectionHistory";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ShoppingBag, User, LogOut } from "lucide-react";
+import { ShoppingBag, User, LogOut, Star, Sprout } from "lucide-react";
 import { toast } from "sonner";
 
-interface Order {
-  id: string;
+interface FarmRequest {
+  farm_name: string;
   status: string;
-  total_price: number;
-  created_at: string;
-  products: {
-    name: string;
-  };
+  rejection_reason: string | null;
 }
 
 const Dashboard = () => {
   const navigate = useNavigate();
-  const [user, setUser] = useState<any>(null);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { user, farm, isLoading: farmLoading } = useFarmProfile();
+  const { data: orders = [], isLoading: ordersLoading } = useBuyerOrders(user?.id, { limit: 5 });
+  const [reviewOrderId, setReviewOrderId] = useState<string | null>(null);
+  const [farmRequest, setFarmRequest] = useState<FarmRequest | null>(null);
+  const hasFarm = !!farm;
+  const loading = farmLoading || ordersLoading;
 
   useEffect(() => {
-    checkAuth();
-  }, []);
-
-  const checkAuth = async () => {
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
+    if (farmLoading) return;
 
-    if (!session) {
-      navigate("/auth/login");
-      return;
-    }
+    if (user && !farm) fetchFarmRequest(user.id);
+  }, [farmLoading, user, farm]);
 
-    setUser(session.user);
-    fetchOrders(session.user.id);
-  };
+  const fetchFarmRequest = async (userId: string) => {
+    const { data: request } = await supabase
+      .from("farm_upgrade_requests")
+      .select("farm_name, status, rejection_reason")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-  const fetchOrders = async (userId: string) => {
-    try {
-      const { data, error } = await supabase
-        .from("orders")
-        .select(
-          `
-          id,
-          status,
-          total_price,
-          created_at,
-          products (name)
-        `
-        )
-        .eq("user_id", userId)
-        .order("created_at", { ascending: false })
-        .limit(5);
-
-      if (error) throw error;
-      setOrders(data || []);
-    } catch (error: any) {
-      console.error("Failed to load orders:", error);
-    } finally {
-      setLoading(false);
-    }
+    setFarmRequest(request);
   };
 
   const handleLogout = async () => {
@@ -79,6 +60,7 @@ const Dashboard = () => {
       shipped: "bg-purple-100 text-purple-800",
       delivered: "bg-green-100 text-green-800",
       cancelled: "bg-red-100 text-red-800",
+      reviewed: "bg-emerald-100 text-emerald-800",
     };
     return colors[status] || "bg-gray-100 text-gray-800";
   };
@@ -102,10 +84,13 @@ const Dashboard = () => {
               Banana Expert
             </h1>
           </div>
-          <Button variant="ghost" onClick={handleLogout}>
-            <LogOut className="w-4 h-4 mr-2" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-2">
+            <NotificationBell />
+            <Button variant="ghost" onClick={handleLogout}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Logout
+            </Button>
+          </div>
         </div>
       </nav>
 
@@ -131,7 +116,10 @@ const Dashboard = () => {
               </div>
             </Card>
 
-            <Card className="p-6 hover:shadow-soft transition-shadow">
+            <Card
+              className="p-6 hover:shadow-soft transition-shadow cursor-pointer"
+              onClick={() => navigate("/orders")}
+            >
               <div className="flex items-center gap-4">
                 <div className="w-12 h-12 bg-secondary/10 rounded-full flex items-center justify-center">
                   <ShoppingBag className="w-6 h-6 text-secondary" />
@@ -139,16 +127,76 @@ const Dashboard = () => {
                 <div>
                   <h3 className="font-semibold">Orders</h3>
                   <p className="text-sm text-muted-foreground">
-                    {orders.length} total orders
+                    View your order history
                   </p>
                 </div>
               </div>
             </Card>
           </div>
 
+          {/* Farm */}
+          <Card className="p-6 mb-8">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+                  <Sprout className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  {hasFarm ? (
+                    <>
+                      <h3 className="font-semibold">Your Farm</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Manage products and orders
+                      </p>
+                    </>
+                  ) : farmRequest?.status === "pending" ? (
+                    <>
+                      <h3 className="font-semibold">Farm application under review</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {farmRequest.farm_name} · we'll notify you when it is decided
+                      </p>
+                    </>
+                  ) : farmRequest?.status === "rejected" ? (
+                    <>
+                      <h3 className="font-semibold">Farm application not approved</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {farmRequest.rejection_reason || "You can update your details and apply again"}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <h3 className="font-semibold">Sell your bananas</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Apply to open a farm shop on the marketplace
+                      </p>
+                    </>
+                  )}
+                </div>
+              </div>
+              {hasFarm ? (
+                <Button onClick={() => navigate("/farm")}>Farm Dashboard</Button>
+              ) : farmRequest?.status === "pending" ? (
+                <span className="px-3 py-1 rounded-full text-xs bg-yellow-100 text-yellow-800">
+                  pending
+                </span>
+              ) : (
+                <Button variant="outline" onClick={() => navigate("/farm/apply")}>
+                  {farmRequest?.status === "rejected" ? "Apply Again" : "Become a Farm"}
+                </Button>
+              )}
+            </div>
+          </Card>
+
           {/* Recent Orders */}
           <Card className="p-6">
-            <h2 className="text-2xl font-bold mb-6">Recent Orders</h2>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold">Recent Orders</h2>
+              {orders.length > 0 && (
+                <Button variant="link" onClick={() => navigate("/orders")}>
+                  View all
+                </Button>
+              )}
+            </div>
             {orders.length === 0 ? (
               <div className="text-center py-12">
                 <ShoppingBag className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
@@ -162,9 +210,11 @@ const Dashboard = () => {
                 {orders.map((order) => (
                   <Card key={order.id} className="p-4">
                     <div className="flex items-center justify-between">
-                      <div>
+                      <div className="cursor-pointer" onClick={() => navigate(`/orders/${order.id}`)}>
                         <p className="font-semibold">
-                          {(order.products as any)?.name || "Product"}
+                          {order.order_items
+                            .map((item) => item.products?.name || "Product")
+                            .join(", ") || "Product"}
                         </p>
                         <p className="text-sm text-muted-foreground">
                           {new Date(order.created_at).toLocaleDateString()}
@@ -179,6 +229,27 @@ const Dashboard = () => {
                         >
                           {order.status}
                         </span>
+                        {order.payment_status === "unpaid" && order.status !== "cancelled" && (
+                          <Button
+                            size="sm"
+                            variant="link"
+                            className="block ml-auto px-0"
+                            onClick={() => navigate(`/market/checkout/${order.checkout_id}/payment`)}
+                          >
+                            Pay now
+                          </Button>
+                        )}
+                        {order.status === "delivered" && (
+                          <Button
+                            size="sm"
+                            variant="link"
+                            className="block ml-auto px-0"
+                            onClick={() => setReviewOrderId(order.id)}
+                          >
+                            <Star className="w-3 h-3 mr-1 inline" />
+                            Write a review
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </Card>
@@ -187,6 +258,18 @@ const Dashboard = () => {
             )}
           </Card>
 
+          {/* Detection History */}
+          <Card className="p-6 mt-8">
+            <h2 className="text-2xl font-bold mb-6">Detection History</h2>
+            {user && <DetectionHistory userId={user.id} />}
+          </Card>
+
+          <ReviewDialog
+            orderId={reviewOrderId}
+            onOpenChange={(open) => !open && setReviewOrderId(null)}
+            onSubmitted={() => queryClient.invalidateQueries({ queryKey: queryKeys.orders.all })}
+          />
+
           <div className="mt-8 text-center">
             <Button variant="outline" onClick={() => navigate("/")}>
               Back to Home
@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/hooks/use-session";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle2, Clock, ImagePlus, Loader2, Sprout, X, XCircle } from "lucide-react";
+
+const MAX_PHOTOS = 5;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+interface FarmRequest {
+  id: string;
+  farm_name: string;
+  status: string;
+  rejection_reason: string | null;
+  created_at: string | null;
+  reviewed_at: string | null;
+}
+
+const FarmApplication = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [latestRequest, setLatestRequest] = useState<FarmRequest | null>(null);
+  const [reapplying, setReapplying] = useState(false);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+
+  const [formData, setFormData] = useState({
+    farm_name: "",
+    farm_location: "",
+    description: "",
+  });
+
+  useEffect(() => {
+    loadApplication();
+  }, [user]);
+
+  useEffect(() => {
+    const urls = photos.map((photo) => URL.createObjectURL(photo));
+    setPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [photos]);
+
+  const loadApplication = async () => {
+    if (!user) return;
+
+    try {
+      const { data: farm, error: farmError } = await supabase
+        .from("farm_profiles")
+        .select("id")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (farmError) throw farmError;
+
+      if (farm) {
+        navigate("/farm");
+        return;
+      }
+
+      const { data: requestData, error: requestError } = await supabase
+        .from("farm_upgrade_requests")
+        .select("id, farm_name, status, rejection_reason, created_at, reviewed_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (requestError) throw requestError;
+
+      setLatestRequest(requestData);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load application";
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addPhotos = (files: FileList | null) => {
+    if (!files) return;
+
+    const accepted = Array.from(files).filter((file) => {
+      if (!file.type.startsWith("image/")) {
+        toast.error(`${file.name} is not an image`);
+        return false;
+      }
+      if (file.size > MAX_PHOTO_SIZE) {
+        toast.error(`${file.name} is larger than 5 MB`);
+        return false;
+      }
+      return true;
+    });
+
+    const next = [...photos, ...accepted];
+    if (next.length > MAX_PHOTOS) {
+      toast.error(`You can attach up to ${MAX_PHOTOS} photos`);
+    }
+    setPhotos(next.slice(0, MAX_PHOTOS));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) return;
+
+    if (!formData.farm_name.trim() || !formData.farm_location.trim()) {
+      toast.error("Farm name and location are required");
+      return;
+    }
+
+    if (photos.length === 0) {
+      toast.error("Please attach at least one photo of your farm");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const photoPaths: string[] = [];
+
+      for (const [index, photo] of photos.entries()) {
+        const extension = photo.name.split(".").pop() || "jpg";
+        const path = `${user.id}/${Date.now()}-${index}.${extension}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from("farm-applications")
+          .upload(path, photo, { contentType: photo.type });
+
+        if (uploadError) throw uploadError;
+
+        photoPaths.push(path);
+      }
+
+      const { error } = await supabase.from("farm_upgrade_requests").insert({
+        user_id: user.id,
+        farm_name: formData.farm_name.trim(),
+        farm_location: formData.farm_location.trim(),
+        description: formData.description.trim() || null,
+        photo_paths: photoPaths,
+      });
+
+      if (error) throw error;
+
+      toast.success("Application submitted! We'll notify you once it has been reviewed.");
+      navigate("/dashboard");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to submit application";
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const showForm = !latestRequest || (latestRequest.status === "rejected" && reapplying);
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Become a Farm
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          {!showForm && latestRequest ? (
+            <Card className="p-6 text-center">
+              {latestRequest.status === "pending" && (
+                <>
+                  <Clock className="w-12 h-12 mx-auto text-yellow-600 mb-4" />
+                  <h2 className="text-xl font-bold mb-2">Application under review</h2>
+                  <p className="text-muted-foreground mb-4">
+                    We received your application for {latestRequest.farm_name}
+                    {latestRequest.created_at &&
+                      ` on ${new Date(latestRequest.created_at).toLocaleDateString()}`}
+                    . You'll get a notification when it has been reviewed.
+                  </p>
+                  <Button onClick={() => navigate("/dashboard")}>Back to Dashboard</Button>
+                </>
+              )}
+              {latestRequest.status === "approved" && (
+                <>
+                  <CheckCircle2 className="w-12 h-12 mx-auto text-green-600 mb-4" />
+                  <h2 className="text-xl font-bold mb-2">Application approved</h2>
+                  <p className="text-muted-foreground mb-4">
+                    {latestRequest.farm_name} is ready to start selling.
+                  </p>
+                  <Button onClick={() => navigate("/farm")}>Go to Farm Dashboard</Button>
+                </>
+              )}
+              {latestRequest.status === "rejected" && (
+                <>
+                  <XCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
+                  <h2 className="text-xl font-bold mb-2">Application not approved</h2>
+                  {latestRequest.rejection_reason && (
+                    <p className="text-muted-foreground mb-4">{latestRequest.rejection_reason}</p>
+                  )}
+                  <Button onClick={() => setReapplying(true)}>Apply Again</Button>
+                </>
+              )}
+            </Card>
+          ) : (
+            <Card className="p-6">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+                  <Sprout className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-bold">Farm Application</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Tell us about your farm. An admin will review your application.
+                  </p>
+                </div>
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="farm_name">Farm Name *</Label>
+                  <Input
+                    id="farm_name"
+                    value={formData.farm_name}
+                    onChange={(e) => setFormData({ ...formData, farm_name: e.target.value })}
+                    placeholder="e.g. Suan Kluay Ban Rai"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="farm_location">Location *</Label>
+                  <Input
+                    id="farm_location"
+                    value={formData.farm_location}
+                    onChange={(e) => setFormData({ ...formData, farm_location: e.target.value })}
+                    placeholder="District, province"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">About Your Farm</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Farm size, cultivars you grow, how long you've been farming..."
+                    rows={4}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="photos">Farm Photos * (up to {MAX_PHOTOS})</Label>
+                  {photos.length > 0 && (
+                    <div className="grid grid-cols-3 gap-2">
+                      {photos.map((photo, index) => (
+                        <div key={`${photo.name}-${index}`} className="relative">
+                          <img
+                            src={previews[index]}
+                            alt={photo.name}
+                            className="w-full h-24 object-cover rounded"
+                          />
+                          <Button
+                            type="button"
+                            variant="secondary"
+                            size="icon"
+                            className="absolute top-1 right-1 h-6 w-6"
+                            onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                          >
+                            <X className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {photos.length < MAX_PHOTOS && (
+                    <Label
+                      htmlFor="photos"
+                      className="flex items-center justify-center gap-2 h-20 border-2 border-dashed border-border rounded-lg cursor-pointer text-muted-foreground hover:bg-muted/50"
+                    >
+                      <ImagePlus className="w-5 h-5" />
+                      Add photos
+                    </Label>
+                  )}
+                  <Input
+                    id="photos"
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      addPhotos(e.target.files);
+                      e.target.value = "";
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Photos of your plantation or harvest help us verify your farm
+                  </p>
+                </div>
+
+                <div className="flex gap-4 pt-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => navigate("/dashboard")}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="flex-1" disabled={submitting}>
+                    {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Submit Application
+                  </Button>
+                </div>
+              </form>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FarmApplication;
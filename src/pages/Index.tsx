@@ -1,17 +1,41 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
 import { Upload, Sparkles, Book, Store } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { formatDefect, getRipenessColor, ripenessLabels, type RipenessStage } from "@/lib/detection";
 import heroImage from "@/assets/hero-bananas.jpg";
 
+interface CultivarPrediction {
+  cultivar: {
+    id: string;
+    name: string;
+    thai_name: string;
+    slug: string;
+    image_url: string | null;
+  };
+  confidence: number;
+  listing_count: number;
+}
+
+interface Grading {
+  ripeness_stage: RipenessStage;
+  defects: string[];
+  quality: string;
+}
+
 const Index = () => {
   const navigate = useNavigate();
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string>("");
   const [detecting, setDetecting] = useState(false);
-  const [result, setResult] = useState<any>(null);
+  const [predictions, setPredictions] = useState<CultivarPrediction[] | null>(null);
+  const [grading, setGrading] = useState<Grading | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [simulated, setSimulated] = useState(false);
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -19,7 +43,8 @@ const Index = () => {
       setSelectedImage(file);
       const url = URL.createObjectURL(file);
       setPreviewUrl(url);
-      setResult(null);
+      setPredictions(null);
+      setGrading(null);
     }
   };
 
@@ -31,19 +56,21 @@ const Index = () => {
 
     setDetecting(true);
     try {
-      // Simulate ML detection API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock result
-      setResult({
-        cultivar: "Gros Michel",
-        confidence: 0.92,
-        characteristics: ["Sweet", "Aromatic", "Yellow skin"],
-        quality: "Excellent"
-      });
+      const body = new FormData();
+      body.append("image", selectedImage);
+
+      const { data, error } = await supabase.functions.invoke("detect-cultivar", { body });
+
+      if (error) throw error;
+
+      setPredictions(data.predictions);
+      setGrading(data.grading);
+      setSaved(!!data.detection_run_id);
+      setSimulated(!!data.simulated);
       toast.success("Detection complete!");
-    } catch (error) {
-      toast.error("Detection failed. Please try again.");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Detection failed. Please try again.";
+      toast.error(message);
     } finally {
       setDetecting(false);
     }
@@ -163,36 +190,89 @@ const Index = () => {
             )}
 
             {/* Results */}
-            {result && (
+            {predictions && predictions.length > 0 && (
               <Card className="p-6 bg-primary/5 border-primary/20">
                 <h4 className="text-xl font-bold mb-4">Detection Results</h4>
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <span className="text-muted-foreground">Cultivar:</span>
-                    <span className="font-semibold text-lg">{result.cultivar}</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-muted-foreground">Confidence:</span>
-                    <span className="font-semibold">{(result.confidence * 100).toFixed(0)}%</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-muted-foreground">Quality:</span>
-                    <span className="font-semibold text-secondary">{result.quality}</span>
+                {grading && (
+                  <div className="space-y-3 mb-6">
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Ripeness:</span>
+                      <span
+                        className={`px-3 py-1 rounded-full text-sm ${getRipenessColor(grading.ripeness_stage)}`}
+                      >
+                        {ripenessLabels[grading.ripeness_stage]}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Quality:</span>
+                      <span className="font-semibold text-secondary">{grading.quality}</span>
+                    </div>
+                    <div className="flex justify-between items-start gap-4">
+                      <span className="text-muted-foreground">Defects:</span>
+                      {grading.defects.length === 0 ? (
+                        <span className="font-semibold">None found</span>
+                      ) : (
+                        <div className="flex flex-wrap justify-end gap-2">
+                          {grading.defects.map((defect) => (
+                            <span
+                              key={defect}
+                              className="px-3 py-1 bg-destructive/10 text-destructive rounded-full text-sm"
+                            >
+                              {formatDefect(defect)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                  <div className="pt-2">
-                    <span className="text-muted-foreground block mb-2">Characteristics:</span>
-                    <div className="flex flex-wrap gap-2">
-                      {result.characteristics.map((char: string, idx: number) => (
-                        <span
-                          key={idx}
-                          className="px-3 py-1 bg-primary/10 text-primary rounded-full text-sm"
-                        >
-                          {char}
+                )}
+                <div className="space-y-4">
+                  {predictions.map((prediction, idx) => (
+                    <div key={prediction.cultivar.id} className="space-y-2">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <span className={idx === 0 ? "font-semibold text-lg" : "font-medium"}>
+                            {prediction.cultivar.name}
+                          </span>
+                          <span className="text-sm text-muted-foreground ml-2">
+                            {prediction.cultivar.thai_name}
+                          </span>
+                        </div>
+                        <span className="font-semibold">
+                          {(prediction.confidence * 100).toFixed(0)}%
                         </span>
-                      ))}
+                      </div>
+                      <Progress value={prediction.confidence * 100} className="h-2" />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => navigate(`/knowledge/${prediction.cultivar.slug}`)}
+                        >
+                          <Book className="w-3 h-3 mr-1" />
+                          Learn more
+                        </Button>
+                        {prediction.listing_count > 0 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => navigate(`/market?cultivar=${prediction.cultivar.slug}`)}
+                          >
+                            <Store className="w-3 h-3 mr-1" />
+                            {prediction.listing_count} for sale
+                          </Button>
+                        )}
+                      </div>
                     </div>
-                  </div>
+                  ))}
                 </div>
+                <p className="text-xs text-muted-foreground mt-4">
+                  {simulated
+                    ? "Test models are enabled: these results are simulated and were not saved."
+                    : saved
+                      ? "Saved to your detection history."
+                      : "Sign in to keep a history of your detections."}
+                </p>
               </Card>
             )}
           </div>
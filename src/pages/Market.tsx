@@ -1,10 +1,38 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, Search, Star, MapPin } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  ArrowLeft,
+  Crosshair,
+  LayoutGrid,
+  Loader2,
+  Map as MapIcon,
+  Search,
+  Star,
+  MapPin,
+  ShoppingCart,
+  X,
+} from "lucide-react";
+import NotificationBell from "@/components/NotificationBell";
+import FarmMap, { type FarmMarker } from "@/components/FarmMap";
+import { useCart } from "@/hooks/use-cart";
+import { useCultivarCounts, useMarketSearch } from "@/hooks/use-products";
+import { useCultivars } from "@/hooks/use-cultivars";
+import { useMarketOrigin } from "@/hooks/use-market-origin";
+import { formatDistance } from "@/lib/geocoding";
+import { getThumbnailUrl } from "@/lib/images";
+import {
+  MARKET_RADIUS_OPTIONS,
+  marketSortLabels,
+  parseMarketParams,
+  toMarketParams,
+  type MarketFilters,
+  type MarketSort,
+} from "@/lib/market-filters";
 import { toast } from "sonner";
 import {
   Select,
@@ -14,80 +42,113 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-interface Product {
-  id: string;
-  name: string;
-  description: string;
-  product_type: string;
-  price_per_unit: number;
-  available_quantity: number;
-  unit: string;
-  harvest_date: string;
-  image_url: string | null;
-  farm_profiles: {
-    farm_name: string;
-    farm_location: string;
-    rating: number;
-  };
-}
+const SEARCH_DEBOUNCE_MS = 400;
 
 const Market = () => {
   const navigate = useNavigate();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [search, setSearch] = useState("");
-  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseMarketParams(searchParams);
+  const { data: cultivars, isLoading: cultivarsLoading } = useCultivars();
+  const { itemCount } = useCart();
+  const { origin, source: originSource, locate, locating, isLoading: originLoading } = useMarketOrigin();
+  const [view, setView] = useState<"grid" | "map">("grid");
+  const [selectedFarmId, setSelectedFarmId] = useState<string | null>(null);
+
+  // Typed filters are kept locally and written to the URL once the user pauses
+  const [draft, setDraft] = useState({
+    query: filters.query,
+    minPrice: filters.minPrice?.toString() ?? "",
+    maxPrice: filters.maxPrice?.toString() ?? "",
+  });
+
+  const cultivar = cultivars?.find((c) => c.slug === filters.cultivarSlug) ?? null;
+  // Wait for the cultivar list before searching a cultivar link, so the first page is already filtered
+  const cultivarId = filters.cultivarSlug ? (cultivarsLoading ? undefined : cultivar?.id ?? null) : null;
+
+  const {
+    data,
+    isLoading: loading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useMarketSearch(filters, cultivarId, originLoading ? undefined : origin);
+  const { data: cultivarCounts = {} } = useCultivarCounts(filters, originLoading ? undefined : origin);
 
   useEffect(() => {
-    fetchProducts();
-  }, []);
+    if (error) toast.error("Failed to load products");
+  }, [error]);
+
+  const updateFilters = (changes: Partial<MarketFilters>) => {
+    setSearchParams(toMarketParams({ ...filters, ...changes }), { replace: true });
+  };
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const minPrice = draft.minPrice === "" ? null : parseFloat(draft.minPrice);
+      const maxPrice = draft.maxPrice === "" ? null : parseFloat(draft.maxPrice);
+      const changes = {
+        query: draft.query,
+        minPrice: minPrice !== null && !isNaN(minPrice) ? minPrice : null,
+        maxPrice: maxPrice !== null && !isNaN(maxPrice) ? maxPrice : null,
+      };
+
+      if (
+        changes.query.trim() !== filters.query.trim() ||
+        changes.minPrice !== filters.minPrice ||
+        changes.maxPrice !== filters.maxPrice
+      ) {
+        updateFilters(changes);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [draft]);
+
+  const clearFilters = () => {
+    setDraft({ query: "", minPrice: "", maxPrice: "" });
+    setSearchParams({}, { replace: true });
+  };
+
+  // Unverified farms are hidden by RLS, so their details may be missing
+  const products = (data?.pages.flat() ?? []).map((p) => ({
+    ...p,
+    farm_name: p.farm_name || "Unknown Farm",
+    farm_location: p.farm_location || "Unknown",
+    farm_rating: p.farm_rating || 0,
+  }));
 
-  const fetchProducts = async () => {
+  const hasFilters = searchParams.toString() !== "";
+  const needsOrigin = !origin && !originLoading && (filters.radiusKm !== null || filters.sort === "distance");
+
+  const locateBuyer = async () => {
     try {
-      const { data: productsData, error: productsError } = await supabase
-        .from("products")
-        .select("*")
-        .eq("is_active", true)
-        .order("harvest_date", { ascending: true });
-
-      if (productsError) throw productsError;
-
-      // Fetch farm profiles separately
-      const farmIds = [...new Set(productsData?.map((p) => p.farm_id))];
-      const { data: farmsData, error: farmsError } = await supabase
-        .from("farm_profiles")
-        .select("user_id, farm_name, farm_location, rating")
-        .in("user_id", farmIds);
-
-      if (farmsError) throw farmsError;
-
-      // Map farms to products
-      const farmMap = new Map(farmsData?.map((f) => [f.user_id, f]));
-      const productsWithFarms =
-        productsData?.map((p) => ({
-          ...p,
-          farm_profiles: farmMap.get(p.farm_id) || {
-            farm_name: "Unknown Farm",
-            farm_location: "Unknown",
-            rating: 0,
-          },
-        })) || [];
-
-      setProducts(productsWithFarms);
-    } catch (error: any) {
-      toast.error("Failed to load products");
-    } finally {
-      setLoading(false);
+      await locate();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Could not get your location";
+      toast.error(message);
     }
   };
 
-  const filteredProducts = products.filter((p) => {
-    const matchesSearch =
-      p.name.toLowerCase().includes(search.toLowerCase()) ||
-      p.farm_profiles.farm_name.toLowerCase().includes(search.toLowerCase());
-    const matchesType = typeFilter === "all" || p.product_type === typeFilter;
-    return matchesSearch && matchesType;
-  });
+  // The map shows the farms behind the listings loaded so far
+  const farmMarkers = products.reduce<FarmMarker[]>((markers, product) => {
+    if (product.farm_latitude === null || product.farm_longitude === null) return markers;
+
+    const marker = markers.find((m) => m.id === product.farm_id);
+    if (marker) {
+      marker.listingCount += 1;
+    } else {
+      markers.push({
+        id: product.farm_id,
+        name: product.farm_name,
+        latitude: product.farm_latitude,
+        longitude: product.farm_longitude,
+        listingCount: 1,
+      });
+    }
+    return markers;
+  }, []);
+  const selectedFarmProducts = products.filter((p) => p.farm_id === selectedFarmId);
 
   return (
     <div className="min-h-screen bg-gradient-hero">
@@ -104,7 +165,14 @@ const Market = () => {
               Banana Expert
             </h1>
           </div>
-          <Button onClick={() => navigate("/auth/login")}>Sign In</Button>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => navigate("/market/cart")}>
+              <ShoppingCart className="w-4 h-4 mr-2" />
+              Cart ({itemCount})
+            </Button>
+            <NotificationBell />
+            <Button onClick={() => navigate("/auth/login")}>Sign In</Button>
+          </div>
         </div>
       </nav>
 
@@ -118,18 +186,23 @@ const Market = () => {
         </div>
 
         {/* Filters */}
-        <div className="max-w-4xl mx-auto mb-8 flex gap-4">
-          <div className="flex-1 relative">
+        <div className="max-w-4xl mx-auto mb-4 flex flex-wrap gap-4">
+          <div className="flex-1 min-w-[240px] relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
             <Input
-              placeholder="Search products or farms..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search products, farms or cultivars..."
+              value={draft.query}
+              onChange={(e) => setDraft({ ...draft, query: e.target.value })}
               className="pl-10"
             />
           </div>
-          <Select value={typeFilter} onValueChange={setTypeFilter}>
-            <SelectTrigger className="w-[200px]">
+          <Select
+            value={filters.productType ?? "all"}
+            onValueChange={(value) =>
+              updateFilters({ productType: value === "all" ? null : (value as MarketFilters["productType"]) })
+            }
+          >
+            <SelectTrigger className="w-[160px]">
               <SelectValue placeholder="Product Type" />
             </SelectTrigger>
             <SelectContent>
@@ -138,6 +211,165 @@ const Market = () => {
               <SelectItem value="fruit">Fruits</SelectItem>
             </SelectContent>
           </Select>
+          <Select
+            value={cultivar?.slug ?? "all"}
+            onValueChange={(value) => updateFilters({ cultivarSlug: value === "all" ? null : value })}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Cultivar" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Cultivars</SelectItem>
+              {(cultivars ?? []).map((c) => (
+                <SelectItem key={c.id} value={c.slug} disabled={!cultivarCounts[c.id] && c.id !== cultivar?.id}>
+                  {c.name} ({cultivarCounts[c.id] || 0})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="max-w-4xl mx-auto mb-8 flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Price per unit (฿)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                placeholder="Min"
+                value={draft.minPrice}
+                onChange={(e) => setDraft({ ...draft, minPrice: e.target.value })}
+                className="w-24"
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="number"
+                min="0"
+                placeholder="Max"
+                value={draft.maxPrice}
+                onChange={(e) => setDraft({ ...draft, maxPrice: e.target.value })}
+                className="w-24"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Harvested between</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={filters.harvestFrom ?? ""}
+                onChange={(e) => updateFilters({ harvestFrom: e.target.value || null })}
+                className="w-40"
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="date"
+                value={filters.harvestTo ?? ""}
+                onChange={(e) => updateFilters({ harvestTo: e.target.value || null })}
+                className="w-40"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Distance</Label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={filters.radiusKm?.toString() ?? "any"}
+                onValueChange={(value) => updateFilters({ radiusKm: value === "any" ? null : parseInt(value) })}
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any distance</SelectItem>
+                  {MARKET_RADIUS_OPTIONS.map((km) => (
+                    <SelectItem key={km} value={km.toString()}>
+                      Within {km} km
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={locateBuyer}
+                disabled={locating}
+                title={originSource === "device" ? "Update my location" : "Use my current location"}
+              >
+                {locating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Crosshair className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="verified_only"
+              checked={filters.verifiedOnly}
+              onCheckedChange={(checked) => updateFilters({ verifiedOnly: checked })}
+            />
+            <Label htmlFor="verified_only" className="text-sm">Verified farms</Label>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="in_stock"
+              checked={filters.inStock}
+              onCheckedChange={(checked) => updateFilters({ inStock: checked })}
+            />
+            <Label htmlFor="in_stock" className="text-sm">In stock</Label>
+          </div>
+          <div className="ml-auto space-y-1">
+            <Label className="text-xs text-muted-foreground">Sort by</Label>
+            <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as MarketSort })}>
+              <SelectTrigger className="w-[190px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(marketSortLabels) as MarketSort[]).map((sort) => (
+                  <SelectItem key={sort} value={sort}>
+                    {marketSortLabels[sort]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        {cultivar && (
+          <div className="max-w-4xl mx-auto -mt-4 mb-8">
+            <span className="inline-flex items-center gap-2 px-3 py-1 bg-primary/10 text-primary rounded-full text-sm">
+              Cultivar: {cultivar.name}
+              <button type="button" aria-label="Clear cultivar filter" onClick={() => updateFilters({ cultivarSlug: null })}>
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          </div>
+        )}
+
+        {needsOrigin && (
+          <Card className="max-w-4xl mx-auto mb-8 p-4 flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Share your location or save a delivery address to find farms near you.
+            </p>
+            <Button size="sm" onClick={locateBuyer} disabled={locating}>
+              {locating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Crosshair className="w-4 h-4 mr-2" />}
+              Use my location
+            </Button>
+          </Card>
+        )}
+
+        <div className="max-w-6xl mx-auto mb-4 flex justify-end gap-1">
+          <Button variant={view === "grid" ? "secondary" : "ghost"} size="sm" onClick={() => setView("grid")}>
+            <LayoutGrid className="w-4 h-4 mr-2" />
+            Listings
+          </Button>
+          <Button variant={view === "map" ? "secondary" : "ghost"} size="sm" onClick={() => setView("map")}>
+            <MapIcon className="w-4 h-4 mr-2" />
+            Map
+          </Button>
         </div>
 
         {/* Products Grid */}
@@ -145,31 +377,93 @@ const Market = () => {
           <div className="text-center py-12">
             <p className="text-muted-foreground">Loading products...</p>
           </div>
+        ) : view === "map" ? (
+          <div className="grid md:grid-cols-[minmax(0,360px)_1fr] gap-6 max-w-6xl mx-auto">
+            <Card className="p-4">
+              <FarmMap
+                farms={farmMarkers}
+                origin={origin}
+                radiusKm={filters.radiusKm}
+                selectedId={selectedFarmId}
+                onSelect={setSelectedFarmId}
+              />
+              <p className="text-xs text-muted-foreground mt-2">
+                {farmMarkers.length} farm{farmMarkers.length === 1 ? "" : "s"} on the map. Farms
+                without a location are only shown in the listings.
+              </p>
+            </Card>
+            <Card className="p-6">
+              {selectedFarmProducts.length > 0 ? (
+                <>
+                  <h3 className="text-xl font-bold mb-1">{selectedFarmProducts[0].farm_name}</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    {selectedFarmProducts[0].farm_location}
+                    {selectedFarmProducts[0].distance_km !== null &&
+                      ` · ${formatDistance(selectedFarmProducts[0].distance_km)} away`}
+                  </p>
+                  <div className="space-y-3">
+                    {selectedFarmProducts.map((product) => (
+                      <div
+                        key={product.id}
+                        className="flex items-center justify-between p-3 bg-muted/50 rounded-lg cursor-pointer hover:bg-muted"
+                        onClick={() => navigate(`/market/product/${product.id}`)}
+                      >
+                        <div>
+                          <p className="font-medium">{product.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {product.available_quantity} {product.unit} available · Harvest{" "}
+                            {new Date(product.harvest_date).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <p className="font-bold text-primary">
+                          ฿{product.price_per_unit}/{product.unit}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <div className="text-center py-12 text-muted-foreground">
+                  <MapPin className="w-10 h-10 mx-auto mb-3" />
+                  Select a farm on the map to see its listings
+                </div>
+              )}
+            </Card>
+          </div>
         ) : (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
-            {filteredProducts.map((product) => (
+            {products.map((product) => (
               <Card
                 key={product.id}
                 className="overflow-hidden hover:shadow-soft transition-shadow cursor-pointer"
                 onClick={() => navigate(`/market/product/${product.id}`)}
               >
-                <div className="aspect-video bg-gradient-primary flex items-center justify-center">
-                  <span className="text-6xl">🍌</span>
-                </div>
+                {product.image_url ? (
+                  <img
+                    src={getThumbnailUrl(product.image_url)}
+                    alt={product.name}
+                    className="aspect-video w-full object-cover"
+                  />
+                ) : (
+                  <div className="aspect-video bg-gradient-primary flex items-center justify-center">
+                    <span className="text-6xl">🍌</span>
+                  </div>
+                )}
                 <div className="p-6">
                   <div className="flex items-start justify-between mb-2">
                     <div>
                       <h3 className="text-xl font-bold">{product.name}</h3>
                       <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
                         <MapPin className="w-3 h-3" />
-                        {product.farm_profiles.farm_name}
+                        {product.farm_name}
+                        {product.distance_km !== null && ` · ${formatDistance(product.distance_km)}`}
                       </div>
                     </div>
-                    {product.farm_profiles.rating > 0 && (
+                    {product.farm_rating > 0 && (
                       <div className="flex items-center gap-1 bg-primary/10 px-2 py-1 rounded">
                         <Star className="w-4 h-4 text-primary fill-primary" />
                         <span className="text-sm font-medium text-primary">
-                          {product.farm_profiles.rating.toFixed(1)}
+                          {product.farm_rating.toFixed(1)}
                         </span>
                       </div>
                     )}
@@ -211,7 +505,16 @@ const Market = () => {
           </div>
         )}
 
-        {filteredProducts.length === 0 && !loading && (
+        {hasNextPage && (
+          <div className="text-center mt-8">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
+
+        {products.length === 0 && !loading && (
           <div className="text-center py-12">
             <p className="text-muted-foreground">No products found</p>
           </div>
@@ -0,0 +1,159 @@
+import { useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useSession } from "@/hooks/use-session";
+import { useBuyerOrderHistory } from "@/hooks/use-orders";
+import { Constants, type Database } from "@/integrations/supabase/types";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { ArrowLeft, ChevronRight, Loader2, ShoppingBag } from "lucide-react";
+
+type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+const ORDER_STATUSES = Constants.public.Enums.order_status;
+
+function parseStatus(value: string | null): OrderStatus | null {
+  return ORDER_STATUSES.find((status) => status === value) ?? null;
+}
+
+const Orders = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const status = parseStatus(searchParams.get("status"));
+  const { user } = useSession();
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useBuyerOrderHistory(user?.id, status);
+  const orders = data?.pages.flat() ?? [];
+
+  useEffect(() => {
+    if (error) toast.error(error.message || "Failed to load orders");
+  }, [error]);
+
+  const setStatus = (value: string) => {
+    setSearchParams(value === "all" ? {} : { status: value }, { replace: true });
+  };
+
+  const getStatusColor = (status: string) => {
+    const colors: Record<string, string> = {
+      pending: "bg-yellow-100 text-yellow-800",
+      confirmed: "bg-blue-100 text-blue-800",
+      shipped: "bg-purple-100 text-purple-800",
+      delivered: "bg-green-100 text-green-800",
+      cancelled: "bg-red-100 text-red-800",
+      reviewed: "bg-emerald-100 text-emerald-800",
+    };
+    return colors[status] || "bg-gray-100 text-gray-800";
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              My Orders
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-4">
+          <div className="flex justify-end">
+            <Select value={status ?? "all"} onValueChange={setStatus}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All orders</SelectItem>
+                {ORDER_STATUSES.map((value) => (
+                  <SelectItem key={value} value={value} className="capitalize">
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : orders.length === 0 ? (
+            <Card className="p-6">
+              <div className="text-center py-12">
+                <ShoppingBag className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground mb-4">
+                  {status ? `No ${status} orders` : "No orders yet"}
+                </p>
+                {!status && <Button onClick={() => navigate("/market")}>Browse Marketplace</Button>}
+              </div>
+            </Card>
+          ) : (
+            orders.map((order) => (
+              <Card
+                key={order.id}
+                className="p-4 cursor-pointer hover:shadow-soft transition-shadow"
+                onClick={() => navigate(`/orders/${order.id}`)}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">
+                      {order.order_items
+                        .map((item) => `${item.products?.name || "Product"} × ${item.quantity}`)
+                        .join(", ") || "Product"}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {order.farm_profiles?.farm_name || "Farm"} ·{" "}
+                      {new Date(order.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="text-right">
+                      <p className="font-semibold">฿{order.total_price.toLocaleString()}</p>
+                      <span className={`px-3 py-1 rounded-full text-xs ${getStatusColor(order.status)}`}>
+                        {order.status}
+                      </span>
+                      {order.payment_status === "unpaid" && order.status !== "cancelled" && (
+                        <p className="text-xs text-destructive mt-1">Awaiting payment</p>
+                      )}
+                    </div>
+                    <ChevronRight className="w-5 h-5 text-muted-foreground" />
+                  </div>
+                </div>
+              </Card>
+            ))
+          )}
+
+          {hasNextPage && (
+            <div className="text-center pt-4">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Orders;
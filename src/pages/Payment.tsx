@@ -0,0 +1,303 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { QRCodeSVG } from "qrcode.react";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/hooks/use-session";
+import { getFarmsByOwners } from "@/lib/farms";
+import { generatePromptPayPayload, isValidPromptPayId } from "@/lib/promptpay";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle2, Clock, Loader2, QrCode, Upload } from "lucide-react";
+import type { Database } from "@/integrations/supabase/types";
+
+type PaymentStatus = Database["public"]["Enums"]["payment_status"];
+
+interface CheckoutOrder {
+  id: string;
+  farm_id: string;
+  status: string;
+  total_price: number;
+  payment_status: PaymentStatus;
+  order_items: {
+    quantity: number;
+    products: {
+      name: string;
+      unit: string;
+    } | null;
+  }[];
+}
+
+interface FarmPaymentInfo {
+  farm_name: string;
+  promptpay_id: string | null;
+}
+
+const paymentStatusLabels: Record<PaymentStatus, string> = {
+  unpaid: "Awaiting payment",
+  awaiting_verification: "Verifying slip",
+  paid: "Paid",
+  refunded: "Refunded",
+};
+
+const getPaymentStatusColor = (status: PaymentStatus) => {
+  const colors: Record<PaymentStatus, string> = {
+    unpaid: "bg-yellow-100 text-yellow-800",
+    awaiting_verification: "bg-blue-100 text-blue-800",
+    paid: "bg-green-100 text-green-800",
+    refunded: "bg-gray-100 text-gray-800",
+  };
+  return colors[status];
+};
+
+const Payment = () => {
+  const { checkoutId } = useParams<{ checkoutId: string }>();
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [loading, setLoading] = useState(true);
+  const [orders, setOrders] = useState<CheckoutOrder[]>([]);
+  const [farms, setFarms] = useState<Record<string, FarmPaymentInfo>>({});
+  const [slips, setSlips] = useState<Record<string, File | null>>({});
+  const [uploadingOrderId, setUploadingOrderId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (checkoutId) loadPayment();
+  }, [checkoutId, user]);
+
+  const loadPayment = async () => {
+    if (!user) return;
+
+    try {
+      const { data: ordersData, error: ordersError } = await supabase
+        .from("orders")
+        .select(`
+          id,
+          farm_id,
+          status,
+          total_price,
+          payment_status,
+          order_items (quantity, products (name, unit))
+        `)
+        .eq("checkout_id", checkoutId)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+
+      if (ordersError) throw ordersError;
+
+      if (!ordersData || ordersData.length === 0) {
+        toast.error("Order not found");
+        navigate("/dashboard");
+        return;
+      }
+
+      setOrders(ordersData);
+
+      setFarms(await getFarmsByOwners(ordersData.map((o) => o.farm_id)));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load payment";
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getPayload = (order: CheckoutOrder) => {
+    const promptpayId = farms[order.farm_id]?.promptpay_id;
+    if (!promptpayId || !isValidPromptPayId(promptpayId)) return null;
+    return generatePromptPayPayload(promptpayId, order.total_price);
+  };
+
+  const submitSlip = async (order: CheckoutOrder) => {
+    const slip = slips[order.id];
+
+    if (!slip || !user) {
+      toast.error("Please choose a slip image first");
+      return;
+    }
+
+    if (!slip.type.startsWith("image/")) {
+      toast.error("Slip must be an image");
+      return;
+    }
+
+    setUploadingOrderId(order.id);
+
+    try {
+      const extension = slip.name.split(".").pop() || "jpg";
+      const slipPath = `${user.id}/${order.id}-${Date.now()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from("payment-slips")
+        .upload(slipPath, slip, { contentType: slip.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data: paymentId, error: submitError } = await supabase.rpc("submit_payment_slip", {
+        _order_id: order.id,
+        _slip_path: slipPath,
+      });
+
+      if (submitError) throw submitError;
+
+      const { data: verification, error: verifyError } = await supabase.functions.invoke(
+        "verify-payment-slip",
+        { body: { payment_id: paymentId } }
+      );
+
+      if (verifyError) throw verifyError;
+
+      if (verification?.status === "verified") {
+        toast.success("Payment verified!");
+      } else if (verification?.status === "rejected") {
+        toast.error(verification.message || "Slip was rejected, please upload it again");
+      } else {
+        toast.info("Slip received. The farm will verify your payment.");
+      }
+
+      setSlips({ ...slips, [order.id]: null });
+      await loadPayment();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to submit slip";
+      toast.error(message);
+    } finally {
+      setUploadingOrderId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const allPaid = orders.every((o) => o.payment_status === "paid" || o.status === "cancelled");
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Payment
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {allPaid ? (
+            <Card className="p-6 text-center">
+              <CheckCircle2 className="w-12 h-12 mx-auto text-green-600 mb-4" />
+              <h2 className="text-xl font-bold mb-2">All payments received</h2>
+              <p className="text-muted-foreground mb-4">
+                The farm{orders.length > 1 ? "s" : ""} will prepare your order for delivery.
+              </p>
+              <Button onClick={() => navigate("/dashboard")}>Go to Dashboard</Button>
+            </Card>
+          ) : (
+            <p className="text-muted-foreground text-center">
+              Scan each QR code with your banking app, then upload the transfer slip.
+            </p>
+          )}
+
+          {orders.map((order) => {
+            const farm = farms[order.farm_id];
+            const payload = order.payment_status === "unpaid" ? getPayload(order) : null;
+
+            return (
+              <Card key={order.id} className="p-6">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <h3 className="font-semibold">{farm?.farm_name || "Farm"}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {order.order_items
+                        .map((item) => `${item.products?.name || "Product"} × ${item.quantity}`)
+                        .join(", ")}
+                    </p>
+                  </div>
+                  <span
+                    className={`px-3 py-1 rounded-full text-xs ${getPaymentStatusColor(order.payment_status)}`}
+                  >
+                    {paymentStatusLabels[order.payment_status]}
+                  </span>
+                </div>
+
+                <div className="flex justify-between text-lg font-bold mb-4">
+                  <span>Amount</span>
+                  <span className="text-primary">฿{order.total_price.toLocaleString()}</span>
+                </div>
+
+                {order.status === "cancelled" ? (
+                  <p className="text-sm text-muted-foreground">This order was cancelled.</p>
+                ) : order.payment_status === "unpaid" ? (
+                  <div className="space-y-4">
+                    {payload ? (
+                      <div className="flex flex-col items-center gap-2 p-4 bg-white rounded-lg">
+                        <QRCodeSVG value={payload} size={200} />
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <QrCode className="w-3 h-3" />
+                          PromptPay · ฿{order.total_price.toLocaleString()}
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        This farm has not set up PromptPay yet. Please contact the farm for payment
+                        details, then upload your transfer slip.
+                      </p>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor={`slip-${order.id}`}>Transfer Slip</Label>
+                      <Input
+                        id={`slip-${order.id}`}
+                        type="file"
+                        accept="image/*"
+                        onChange={(e) =>
+                          setSlips({ ...slips, [order.id]: e.target.files?.[0] || null })
+                        }
+                      />
+                    </div>
+
+                    <Button
+                      className="w-full"
+                      disabled={!slips[order.id] || uploadingOrderId === order.id}
+                      onClick={() => submitSlip(order)}
+                    >
+                      {uploadingOrderId === order.id ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Upload className="w-4 h-4 mr-2" />
+                      )}
+                      Upload Slip
+                    </Button>
+                  </div>
+                ) : order.payment_status === "awaiting_verification" ? (
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <Clock className="w-4 h-4" />
+                    Your slip is being verified by the farm.
+                  </p>
+                ) : (
+                  <p className="text-sm text-green-700 flex items-center gap-2">
+                    <CheckCircle2 className="w-4 h-4" />
+                    Payment received.
+                  </p>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Payment;
@@ -1,84 +1,67 @@
 import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useCart } from "@/hooks/use-cart";
+import { useProduct } from "@/hooks/use-products";
+import FarmReviews from "@/components/FarmReviews";
+import { formatDefect, getRipenessColor, ripenessLabels } from "@/lib/detection";
+import { getThumbnailUrl } from "@/lib/images";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
-import { ArrowLeft, Loader2, MapPin, Star, Calendar, Package } from "lucide-react";
-
-interface Product {
-  id: string;
-  name: string;
-  description: string | null;
-  product_type: string;
-  price_per_unit: number;
-  available_quantity: number;
-  unit: string;
-  harvest_date: string;
-  expiry_date: string | null;
-  image_url: string | null;
-  is_active: boolean | null;
-  farm_profiles: {
-    id: string;
-    farm_name: string;
-    farm_location: string;
-    rating: number | null;
-    verified: boolean | null;
-  } | null;
-}
+import { ArrowLeft, Loader2, MapPin, Star, Calendar, Package, ShoppingCart, Sparkles } from "lucide-react";
 
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [loading, setLoading] = useState(true);
-  const [product, setProduct] = useState<Product | null>(null);
+  const { data: product, isLoading: loading, error } = useProduct(id);
+  const { addItem, itemCount } = useCart();
+  const [carouselApi, setCarouselApi] = useState<CarouselApi>();
+  const [currentPhoto, setCurrentPhoto] = useState(0);
 
   useEffect(() => {
-    if (id) loadProduct();
-  }, [id]);
-
-  const loadProduct = async () => {
-    try {
-      // First get the product
-      const { data: productData, error: productError } = await supabase
-        .from("products")
-        .select("*")
-        .eq("id", id)
-        .eq("is_active", true)
-        .maybeSingle();
-
-      if (productError) throw productError;
-
-      if (!productData) {
-        toast.error("Product not found");
-        navigate("/market");
-        return;
-      }
-
-      // Then get the farm profile
-      const { data: farmData, error: farmError } = await supabase
-        .from("farm_profiles")
-        .select("id, farm_name, farm_location, rating, verified")
-        .eq("id", productData.farm_id)
-        .maybeSingle();
-
-      if (farmError) throw farmError;
-
-      const data = {
-        ...productData,
-        farm_profiles: farmData,
-      };
-
-      setProduct(data);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to load product";
-      toast.error(message);
+    if (error) {
+      toast.error(error.message || "Failed to load product");
+      navigate("/market");
+    } else if (product === null) {
+      toast.error("Product not found");
       navigate("/market");
-    } finally {
-      setLoading(false);
     }
+  }, [error, product]);
+
+  useEffect(() => {
+    if (!carouselApi) return;
+
+    const onSelect = () => setCurrentPhoto(carouselApi.selectedScrollSnap());
+    onSelect();
+    carouselApi.on("select", onSelect);
+    return () => {
+      carouselApi.off("select", onSelect);
+    };
+  }, [carouselApi]);
+
+  const handleAddToCart = () => {
+    if (!product) return;
+
+    addItem({
+      productId: product.id,
+      farmId: product.farm_id,
+      name: product.name,
+      unit: product.unit,
+      pricePerUnit: product.price_per_unit,
+      availableQuantity: product.available_quantity,
+      imageUrl: product.image_url,
+    });
+    toast.success(`${product.name} added to cart`);
   };
 
   if (loading) {
@@ -91,19 +74,27 @@ const ProductDetail = () => {
 
   if (!product) return null;
 
+  const photos = product.image_urls.length > 0 ? product.image_urls : product.image_url ? [product.image_url] : [];
+
   return (
     <div className="min-h-screen bg-gradient-hero">
       <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
-        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
-          <Button variant="ghost" size="icon" onClick={() => navigate("/market")}>
-            <ArrowLeft className="w-5 h-5" />
-          </Button>
-          <div className="flex items-center gap-2">
-            <span className="text-3xl">🍌</span>
-            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
-              Product Details
-            </h1>
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/market")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <span className="text-3xl">🍌</span>
+              <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+                Product Details
+              </h1>
+            </div>
           </div>
+          <Button variant="ghost" onClick={() => navigate("/market/cart")}>
+            <ShoppingCart className="w-4 h-4 mr-2" />
+            Cart ({itemCount})
+          </Button>
         </div>
       </nav>
 
@@ -112,9 +103,45 @@ const ProductDetail = () => {
           <div className="grid md:grid-cols-2 gap-8">
             {/* Product Image */}
             <div>
-              {product.image_url ? (
+              {photos.length > 1 ? (
+                <div className="space-y-3">
+                  <Carousel setApi={setCarouselApi} opts={{ loop: true }}>
+                    <CarouselContent>
+                      {photos.map((url, index) => (
+                        <CarouselItem key={url}>
+                          <img
+                            src={url}
+                            alt={`${product.name} photo ${index + 1}`}
+                            className="w-full aspect-square object-cover rounded-xl shadow-lg"
+                          />
+                        </CarouselItem>
+                      ))}
+                    </CarouselContent>
+                    <CarouselPrevious className="left-2" />
+                    <CarouselNext className="right-2" />
+                  </Carousel>
+                  <div className="flex gap-2 overflow-x-auto">
+                    {photos.map((url, index) => (
+                      <button
+                        key={url}
+                        type="button"
+                        onClick={() => carouselApi?.scrollTo(index)}
+                        className={`shrink-0 rounded-md border-2 ${
+                          index === currentPhoto ? "border-primary" : "border-transparent"
+                        }`}
+                      >
+                        <img
+                          src={getThumbnailUrl(url)}
+                          alt={`${product.name} thumbnail ${index + 1}`}
+                          className="w-16 h-16 object-cover rounded"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : photos.length === 1 ? (
                 <img
-                  src={product.image_url}
+                  src={photos[0]}
                   alt={product.name}
                   className="w-full aspect-square object-cover rounded-xl shadow-lg"
                 />
@@ -173,6 +200,37 @@ const ProductDetail = () => {
                 )}
               </div>
 
+              {product.detection_runs && (
+                <Card className="p-4 bg-primary/5 border-primary/20">
+                  <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+                    <Sparkles className="w-4 h-4 text-primary" />
+                    Graded by AI detection
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {product.detection_runs.cultivars && (
+                      <Button
+                        variant="link"
+                        className="h-auto p-0"
+                        onClick={() => navigate(`/knowledge/${product.detection_runs?.cultivars?.slug}`)}
+                      >
+                        {product.detection_runs.cultivars.name}
+                      </Button>
+                    )}
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs ${getRipenessColor(product.detection_runs.ripeness_stage)}`}
+                    >
+                      {ripenessLabels[product.detection_runs.ripeness_stage]}
+                    </span>
+                    <span className="text-muted-foreground">Quality: {product.detection_runs.quality}</span>
+                  </div>
+                  {product.detection_runs.defects.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Defects: {product.detection_runs.defects.map(formatDefect).join(", ")}
+                    </p>
+                  )}
+                </Card>
+              )}
+
               <Separator />
 
               {/* Farm Info */}
@@ -191,24 +249,43 @@ const ProductDetail = () => {
                         <span>{product.farm_profiles.farm_location}</span>
                       </div>
                     </div>
-                    <div className="flex items-center gap-1 text-yellow-500">
-                      <Star className="w-4 h-4 fill-current" />
-                      <span className="font-medium">
-                        {product.farm_profiles.rating?.toFixed(1) || "0.0"}
-                      </span>
+                    <div className="text-right">
+                      <div className="flex items-center gap-1 text-yellow-500">
+                        <Star className="w-4 h-4 fill-current" />
+                        <span className="font-medium">
+                          {product.farm_profiles.rating?.toFixed(1) || "0.0"}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {product.farm_profiles.total_reviews || 0} reviews
+                      </p>
                     </div>
                   </div>
+                  <Separator className="my-4" />
+                  <FarmReviews farmUserId={product.farm_id} />
                 </Card>
               )}
 
-              <Button
-                size="lg"
-                className="w-full"
-                disabled={product.available_quantity === 0}
-                onClick={() => navigate(`/market/reserve/${product.id}`)}
-              >
-                {product.available_quantity > 0 ? "Reserve Now" : "Out of Stock"}
-              </Button>
+              <div className="flex gap-4">
+                <Button
+                  size="lg"
+                  variant="outline"
+                  className="flex-1"
+                  disabled={product.available_quantity === 0}
+                  onClick={handleAddToCart}
+                >
+                  <ShoppingCart className="w-4 h-4 mr-2" />
+                  Add to Cart
+                </Button>
+                <Button
+                  size="lg"
+                  className="flex-1"
+                  disabled={product.available_quantity === 0}
+                  onClick={() => navigate(`/market/reserve/${product.id}`)}
+                >
+                  {product.available_quantity > 0 ? "Reserve Now" : "Out of Stock"}
+                </Button>
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/hooks/use-session";
+import AddressPicker from "@/components/AddressPicker";
+import { getThumbnailUrl } from "@/lib/images";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2, Minus, Plus, ShoppingBag } from "lucide-react";
+
+interface Product {
+  id: string;
+  farm_id: string;
+  name: string;
+  price_per_unit: number;
+  available_quantity: number;
+  unit: string;
+  harvest_date: string;
+  image_url: string | null;
+}
+
+const ReserveProduct = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [product, setProduct] = useState<Product | null>(null);
+
+  const [formData, setFormData] = useState({
+    quantity: 1,
+    address_id: null as string | null,
+    delivery_notes: "",
+  });
+
+  useEffect(() => {
+    if (id) loadCheckout();
+  }, [id, user]);
+
+  const loadCheckout = async () => {
+    if (!user) return;
+
+    try {
+      const { data: productData, error: productError } = await supabase
+        .from("products")
+        .select("id, farm_id, name, price_per_unit, available_quantity, unit, harvest_date, image_url")
+        .eq("id", id)
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (productError) throw productError;
+
+      if (!productData) {
+        toast.error("Product not found");
+        navigate("/market");
+        return;
+      }
+
+      if (productData.available_quantity <= 0) {
+        toast.error("This product is out of stock");
+        navigate(`/market/product/${productData.id}`);
+        return;
+      }
+
+      setProduct(productData);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load checkout";
+      toast.error(message);
+      navigate("/market");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clampQuantity = (value: number) => {
+    if (!product) return 1;
+    if (isNaN(value) || value < 1) return 1;
+    return Math.min(value, product.available_quantity);
+  };
+
+  const setQuantity = (value: number) => {
+    setFormData({ ...formData, quantity: clampQuantity(value) });
+  };
+
+  const totalPrice = product ? product.price_per_unit * formData.quantity : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!product || !user) return;
+
+    if (formData.quantity < 1 || formData.quantity > product.available_quantity) {
+      toast.error(`Quantity must be between 1 and ${product.available_quantity}`);
+      return;
+    }
+
+    if (!formData.address_id) {
+      toast.error("Please choose a delivery address");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      // Stock is checked and reserved atomically on the server
+      const { data: checkoutId, error } = await supabase.rpc("place_checkout", {
+        _items: [{ product_id: product.id, quantity: formData.quantity }],
+        _address_id: formData.address_id,
+        _delivery_notes: formData.delivery_notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success("Reservation placed! Please complete your payment.");
+      navigate(`/market/checkout/${checkoutId}/payment`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to place reservation";
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!product) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate(`/market/product/${product.id}`)}
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Reserve Product
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {/* Product Summary */}
+          <Card className="p-6">
+            <div className="flex items-center gap-4">
+              {product.image_url ? (
+                <img
+                  src={getThumbnailUrl(product.image_url)}
+                  alt={product.name}
+                  className="w-20 h-20 object-cover rounded-lg"
+                />
+              ) : (
+                <div className="w-20 h-20 bg-muted rounded-lg flex items-center justify-center">
+                  <span className="text-4xl">🍌</span>
+                </div>
+              )}
+              <div className="flex-1">
+                <h2 className="text-xl font-bold">{product.name}</h2>
+                <p className="text-sm text-muted-foreground">
+                  ฿{product.price_per_unit}/{product.unit} · {product.available_quantity} {product.unit} available
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Harvest: {new Date(product.harvest_date).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+          </Card>
+
+          {/* Checkout Form */}
+          <Card className="p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+                <ShoppingBag className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">Reservation Details</h2>
+                <p className="text-sm text-muted-foreground">Choose a quantity and where to deliver</p>
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="quantity">Quantity ({product.unit}) *</Label>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    disabled={formData.quantity <= 1}
+                    onClick={() => setQuantity(formData.quantity - 1)}
+                  >
+                    <Minus className="w-4 h-4" />
+                  </Button>
+                  <Input
+                    id="quantity"
+                    type="number"
+                    min="1"
+                    max={product.available_quantity}
+                    value={formData.quantity}
+                    onChange={(e) => setQuantity(parseInt(e.target.value))}
+                    className="w-24 text-center"
+                    required
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    disabled={formData.quantity >= product.available_quantity}
+                    onClick={() => setQuantity(formData.quantity + 1)}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Maximum {product.available_quantity} {product.unit}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Delivery Address *</Label>
+                <AddressPicker
+                  userId={user.id}
+                  defaultRecipient={user.user_metadata?.full_name}
+                  value={formData.address_id}
+                  onChange={(address_id) => setFormData((prev) => ({ ...prev, address_id }))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="delivery_notes">Delivery Notes</Label>
+                <Textarea
+                  id="delivery_notes"
+                  value={formData.delivery_notes}
+                  onChange={(e) => setFormData({ ...formData, delivery_notes: e.target.value })}
+                  placeholder="Preferred pickup time, landmarks, contact instructions..."
+                  rows={2}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>
+                    ฿{product.price_per_unit} × {formData.quantity} {product.unit}
+                  </span>
+                  <span>฿{totalPrice.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between text-lg font-bold">
+                  <span>Total</span>
+                  <span className="text-primary">฿{totalPrice.toLocaleString()}</span>
+                </div>
+              </div>
+
+              <div className="flex gap-4 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => navigate(`/market/product/${product.id}`)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" className="flex-1" disabled={submitting}>
+                  {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Place Reservation
+                </Button>
+              </div>
+            </form>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReserveProduct;
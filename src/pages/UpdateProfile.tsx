@@ -1,6 +1,11 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/hooks/use-session";
+import ImageUpload from "@/components/ImageUpload";
+import LocationFields from "@/components/LocationFields";
+import { isValidPostcode, resolveCoordinates, type AddressLocation } from "@/lib/geocoding";
+import { isValidPromptPayId, normalizePromptPayId } from "@/lib/promptpay";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,13 +13,13 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { ArrowLeft, Loader2, User, Store } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+import { ArrowLeft, Loader2, MapPin, User, Store } from "lucide-react";
 
 interface Profile {
   id: string;
   full_name: string;
   phone: string | null;
-  address: string | null;
   avatar_url: string | null;
 }
 
@@ -24,10 +29,55 @@ interface FarmProfile {
   farm_location: string;
   farm_description: string | null;
   farm_image_url: string | null;
+  promptpay_id: string | null;
 }
 
+const emptyLocation: AddressLocation = {
+  subdistrict: "",
+  district: "",
+  province_code: "",
+  postcode: "",
+  latitude: null,
+  longitude: null,
+};
+
+const toLocation = (row: Pick<Tables<"farm_profiles">, keyof AddressLocation>): AddressLocation => ({
+  subdistrict: row.subdistrict || "",
+  district: row.district || "",
+  province_code: row.province_code || "",
+  postcode: row.postcode || "",
+  latitude: row.latitude,
+  longitude: row.longitude,
+});
+
+// Empty strings are stored as NULL so the column CHECK constraints only see real values
+const fromLocation = (location: AddressLocation) => ({
+  subdistrict: location.subdistrict.trim() || null,
+  district: location.district.trim() || null,
+  province_code: location.province_code || null,
+  postcode: location.postcode || null,
+  latitude: location.latitude,
+  longitude: location.longitude,
+});
+
+const AddressBookLink = () => (
+  <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
+    <div>
+      <p className="font-medium">Delivery Addresses</p>
+      <p className="text-sm text-muted-foreground">Manage where your orders are delivered</p>
+    </div>
+    <Button variant="outline" size="sm" asChild>
+      <Link to="/addresses">
+        <MapPin className="w-4 h-4 mr-2" />
+        Manage
+      </Link>
+    </Button>
+  </div>
+);
+
 const UpdateProfile = () => {
   const navigate = useNavigate();
+  const { user } = useSession();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [profile, setProfile] = useState<Profile | null>(null);
@@ -37,33 +87,32 @@ const UpdateProfile = () => {
   const [profileForm, setProfileForm] = useState({
     full_name: "",
     phone: "",
-    address: "",
+    avatar_url: "",
   });
 
+  const [farmLocation, setFarmLocation] = useState<AddressLocation>(emptyLocation);
+
   const [farmForm, setFarmForm] = useState({
     farm_name: "",
     farm_location: "",
     farm_description: "",
+    promptpay_id: "",
+    farm_image_url: "",
   });
 
   useEffect(() => {
     loadProfiles();
-  }, []);
+  }, [user]);
 
   const loadProfiles = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-
-      if (!session) {
-        navigate("/auth/login");
-        return;
-      }
+    if (!user) return;
 
+    try {
       // Load user profile
       const { data: profileData, error: profileError } = await supabase
         .from("profiles")
         .select("*")
-        .eq("id", session.user.id)
+        .eq("id", user.id)
         .maybeSingle();
 
       if (profileError) throw profileError;
@@ -73,7 +122,7 @@ const UpdateProfile = () => {
         setProfileForm({
           full_name: profileData.full_name || "",
           phone: profileData.phone || "",
-          address: profileData.address || "",
+          avatar_url: profileData.avatar_url || "",
         });
       }
 
@@ -81,7 +130,7 @@ const UpdateProfile = () => {
       const { data: farmData, error: farmError } = await supabase
         .from("farm_profiles")
         .select("*")
-        .eq("user_id", session.user.id)
+        .eq("user_id", user.id)
         .maybeSingle();
 
       if (farmError) throw farmError;
@@ -93,7 +142,10 @@ const UpdateProfile = () => {
           farm_name: farmData.farm_name || "",
           farm_location: farmData.farm_location || "",
           farm_description: farmData.farm_description || "",
+          promptpay_id: farmData.promptpay_id || "",
+          farm_image_url: farmData.farm_image_url || "",
         });
+        setFarmLocation(toLocation(farmData));
       }
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Failed to load profile";
@@ -119,12 +171,13 @@ const UpdateProfile = () => {
         .update({
           full_name: profileForm.full_name.trim(),
           phone: profileForm.phone.trim() || null,
-          address: profileForm.address.trim() || null,
+          avatar_url: profileForm.avatar_url || null,
         })
         .eq("id", profile.id);
 
       if (error) throw error;
 
+
       toast.success("Profile updated");
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Failed to update profile";
@@ -147,20 +200,37 @@ const UpdateProfile = () => {
       return;
     }
 
+    if (farmForm.promptpay_id.trim() && !isValidPromptPayId(farmForm.promptpay_id)) {
+      toast.error("PromptPay ID must be a mobile number, national ID or e-wallet ID");
+      return;
+    }
+
+    if (farmLocation.postcode && !isValidPostcode(farmLocation.postcode)) {
+      toast.error("Postcode must be 5 digits");
+      return;
+    }
+
     setSaving(true);
 
     try {
+      const location = await resolveCoordinates(farmLocation);
+
       const { error } = await supabase
         .from("farm_profiles")
         .update({
           farm_name: farmForm.farm_name.trim(),
           farm_location: farmForm.farm_location.trim(),
           farm_description: farmForm.farm_description.trim() || null,
+          promptpay_id: normalizePromptPayId(farmForm.promptpay_id) || null,
+          farm_image_url: farmForm.farm_image_url || null,
+          ...fromLocation(location),
         })
         .eq("id", farmProfile.id);
 
       if (error) throw error;
 
+      setFarmLocation(location);
+
       toast.success("Farm profile updated");
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Failed to update farm profile";
@@ -213,6 +283,17 @@ const UpdateProfile = () => {
                 <Card className="p-6">
                   <h2 className="text-xl font-bold mb-6">Personal Information</h2>
                   <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="avatar">Profile Photo</Label>
+                      <ImageUpload
+                        id="avatar"
+                        bucket="profile-images"
+                        userId={user.id}
+                        value={profileForm.avatar_url ? [profileForm.avatar_url] : []}
+                        onChange={(urls) => setProfileForm((prev) => ({ ...prev, avatar_url: urls[0] ?? "" }))}
+                      />
+                    </div>
+
                     <div className="space-y-2">
                       <Label htmlFor="full_name">Full Name *</Label>
                       <Input
@@ -237,18 +318,7 @@ const UpdateProfile = () => {
                       />
                     </div>
 
-                    <div className="space-y-2">
-                      <Label htmlFor="address">Address</Label>
-                      <Textarea
-                        id="address"
-                        value={profileForm.address}
-                        onChange={(e) =>
-                          setProfileForm({ ...profileForm, address: e.target.value })
-                        }
-                        placeholder="Your delivery address"
-                        rows={3}
-                      />
-                    </div>
+                    <AddressBookLink />
 
                     <Button onClick={saveProfile} disabled={saving} className="w-full">
                       {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
@@ -262,6 +332,19 @@ const UpdateProfile = () => {
                 <Card className="p-6">
                   <h2 className="text-xl font-bold mb-6">Farm Information</h2>
                   <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="farm_image">Farm Photo</Label>
+                      <ImageUpload
+                        id="farm_image"
+                        bucket="profile-images"
+                        userId={user.id}
+                        value={farmForm.farm_image_url ? [farmForm.farm_image_url] : []}
+                        onChange={(urls) =>
+                          setFarmForm((prev) => ({ ...prev, farm_image_url: urls[0] ?? "" }))
+                        }
+                      />
+                    </div>
+
                     <div className="space-y-2">
                       <Label htmlFor="farm_name">Farm Name *</Label>
                       <Input
@@ -286,6 +369,11 @@ const UpdateProfile = () => {
                       />
                     </div>
 
+                    <LocationFields id="farm" value={farmLocation} onChange={setFarmLocation} />
+                    <p className="text-xs text-muted-foreground">
+                      Buyers use this to find farms near them and on the marketplace map.
+                    </p>
+
                     <div className="space-y-2">
                       <Label htmlFor="farm_description">Description</Label>
                       <Textarea
@@ -299,6 +387,21 @@ const UpdateProfile = () => {
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="promptpay_id">PromptPay ID</Label>
+                      <Input
+                        id="promptpay_id"
+                        value={farmForm.promptpay_id}
+                        onChange={(e) =>
+                          setFarmForm({ ...farmForm, promptpay_id: e.target.value })
+                        }
+                        placeholder="Mobile number or national ID"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Buyers pay your orders by scanning a PromptPay QR code for this account.
+                      </p>
+                    </div>
+
                     <Button onClick={saveFarmProfile} disabled={saving} className="w-full">
                       {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                       Save Farm Profile
@@ -320,6 +423,17 @@ const UpdateProfile = () => {
               </div>
 
               <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="avatar">Profile Photo</Label>
+                  <ImageUpload
+                    id="avatar"
+                    bucket="profile-images"
+                    userId={user.id}
+                    value={profileForm.avatar_url ? [profileForm.avatar_url] : []}
+                    onChange={(urls) => setProfileForm((prev) => ({ ...prev, avatar_url: urls[0] ?? "" }))}
+                  />
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="full_name">Full Name *</Label>
                   <Input
@@ -344,18 +458,7 @@ const UpdateProfile = () => {
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="address">Address</Label>
-                  <Textarea
-                    id="address"
-                    value={profileForm.address}
-                    onChange={(e) =>
-                      setProfileForm({ ...profileForm, address: e.target.value })
-                    }
-                    placeholder="Your delivery address"
-                    rows={3}
-                  />
-                </div>
+                <AddressBookLink />
 
                 <Button onClick={saveProfile} disabled={saving} className="w-full">
                   {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
@@ -0,0 +1,436 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import NotificationBell from "@/components/NotificationBell";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Check, Loader2, LogOut, MapPin, ShieldCheck, X } from "lucide-react";
+
+interface FarmRequest {
+  id: string;
+  user_id: string;
+  farm_name: string;
+  farm_location: string;
+  description: string | null;
+  photo_paths: string[];
+  status: string;
+  rejection_reason: string | null;
+  reviewed_at: string | null;
+  created_at: string | null;
+}
+
+interface Farm {
+  id: string;
+  user_id: string;
+  farm_name: string;
+  farm_location: string;
+  verified: boolean | null;
+  rating: number | null;
+  total_reviews: number | null;
+  created_at: string | null;
+}
+
+const getStatusColor = (status: string) => {
+  const colors: Record<string, string> = {
+    pending: "bg-yellow-100 text-yellow-800",
+    approved: "bg-green-100 text-green-800",
+    rejected: "bg-red-100 text-red-800",
+  };
+  return colors[status] || "bg-gray-100 text-gray-800";
+};
+
+const AdminConsole = () => {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [requests, setRequests] = useState<FarmRequest[]>([]);
+  const [farms, setFarms] = useState<Farm[]>([]);
+  const [applicantNames, setApplicantNames] = useState<Record<string, string>>({});
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<FarmRequest | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  useEffect(() => {
+    loadConsole();
+  }, []);
+
+  const loadConsole = async () => {
+    try {
+      await Promise.all([loadRequests(), loadFarms()]);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to load admin console";
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRequests = async () => {
+    const { data, error } = await supabase
+      .from("farm_upgrade_requests")
+      .select("id, user_id, farm_name, farm_location, description, photo_paths, status, rejection_reason, reviewed_at, created_at")
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    setRequests(data || []);
+
+    // Application photos live in a private bucket
+    const photoPaths = (data || [])
+      .filter((r) => r.status === "pending")
+      .flatMap((r) => r.photo_paths);
+
+    if (photoPaths.length > 0) {
+      const { data: signed, error: signError } = await supabase.storage
+        .from("farm-applications")
+        .createSignedUrls(photoPaths, 60 * 60);
+
+      if (signError) throw signError;
+
+      setPhotoUrls(
+        Object.fromEntries(
+          (signed || []).filter((s) => s.signedUrl).map((s) => [s.path as string, s.signedUrl])
+        )
+      );
+    }
+
+    const userIds = [...new Set((data || []).map((r) => r.user_id))];
+    if (userIds.length === 0) return;
+
+    const { data: profilesData, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, full_name")
+      .in("id", userIds);
+
+    if (profilesError) throw profilesError;
+
+    setApplicantNames(Object.fromEntries((profilesData || []).map((p) => [p.id, p.full_name])));
+  };
+
+  const loadFarms = async () => {
+    const { data, error } = await supabase
+      .from("farm_profiles")
+      .select("id, user_id, farm_name, farm_location, verified, rating, total_reviews, created_at")
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    setFarms(data || []);
+  };
+
+  const reviewRequest = async (request: FarmRequest, approve: boolean, reason?: string) => {
+    setProcessingId(request.id);
+
+    try {
+      const { error } = await supabase.rpc("review_farm_upgrade_request", {
+        _request_id: request.id,
+        _approve: approve,
+        _reason: reason?.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success(approve ? `${request.farm_name} approved` : `${request.farm_name} rejected`);
+      setRejecting(null);
+      setRejectionReason("");
+      await Promise.all([loadRequests(), loadFarms()]);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to review request";
+      toast.error(message);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const toggleVerified = async (farm: Farm, verified: boolean) => {
+    setProcessingId(farm.id);
+
+    try {
+      const { error } = await supabase
+        .from("farm_profiles")
+        .update({ verified })
+        .eq("id", farm.id);
+
+      if (error) throw error;
+
+      setFarms((prev) => prev.map((f) => (f.id === farm.id ? { ...f, verified } : f)));
+      toast.success(verified ? `${farm.farm_name} is now verified` : `${farm.farm_name} is no longer verified`);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to update farm";
+      toast.error(message);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    toast.success("Logged out successfully");
+    navigate("/");
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const pendingRequests = requests.filter((r) => r.status === "pending");
+  const reviewedRequests = requests.filter((r) => r.status !== "pending");
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Admin Console
+            </h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <NotificationBell />
+            <Button variant="ghost" onClick={handleLogout}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Logout
+            </Button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <Tabs defaultValue="requests">
+            <TabsList className="mb-6">
+              <TabsTrigger value="requests">
+                Farm Requests
+                {pendingRequests.length > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {pendingRequests.length}
+                  </Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="farms">Farms</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="requests" className="space-y-6">
+              {pendingRequests.length === 0 ? (
+                <Card className="p-6">
+                  <p className="text-muted-foreground text-center py-8">No pending requests</p>
+                </Card>
+              ) : (
+                pendingRequests.map((request) => (
+                  <Card key={request.id} className="p-6">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1">
+                        <h3 className="text-lg font-semibold">{request.farm_name}</h3>
+                        <p className="text-sm text-muted-foreground flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          {request.farm_location}
+                        </p>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Applicant: {applicantNames[request.user_id] || "Unknown"}
+                          {request.created_at &&
+                            ` · ${new Date(request.created_at).toLocaleDateString()}`}
+                        </p>
+                        {request.description && (
+                          <p className="text-sm mt-3 whitespace-pre-line">{request.description}</p>
+                        )}
+                        {request.photo_paths.length > 0 && (
+                          <div className="flex flex-wrap gap-2 mt-3">
+                            {request.photo_paths.map((path) =>
+                              photoUrls[path] ? (
+                                <a key={path} href={photoUrls[path]} target="_blank" rel="noreferrer">
+                                  <img
+                                    src={photoUrls[path]}
+                                    alt={`${request.farm_name} photo`}
+                                    className="w-20 h-20 object-cover rounded"
+                                  />
+                                </a>
+                              ) : null
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          disabled={processingId === request.id}
+                          onClick={() => setRejecting(request)}
+                        >
+                          <X className="w-4 h-4 mr-2" />
+                          Reject
+                        </Button>
+                        <Button
+                          disabled={processingId === request.id}
+                          onClick={() => reviewRequest(request, true)}
+                        >
+                          {processingId === request.id ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Check className="w-4 h-4 mr-2" />
+                          )}
+                          Approve
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))
+              )}
+
+              {reviewedRequests.length > 0 && (
+                <Card className="p-6">
+                  <h2 className="text-xl font-bold mb-4">Reviewed Requests</h2>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Farm</TableHead>
+                        <TableHead>Applicant</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Reviewed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reviewedRequests.map((request) => (
+                        <TableRow key={request.id}>
+                          <TableCell>
+                            <p className="font-medium">{request.farm_name}</p>
+                            {request.rejection_reason && (
+                              <p className="text-xs text-muted-foreground">
+                                {request.rejection_reason}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>{applicantNames[request.user_id] || "Unknown"}</TableCell>
+                          <TableCell>
+                            <Badge className={getStatusColor(request.status)}>{request.status}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            {request.reviewed_at
+                              ? new Date(request.reviewed_at).toLocaleDateString()
+                              : "-"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="farms">
+              <Card className="p-6">
+                {farms.length === 0 ? (
+                  <p className="text-muted-foreground text-center py-8">No farms yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Farm</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Rating</TableHead>
+                        <TableHead className="text-right">Verified</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {farms.map((farm) => (
+                        <TableRow key={farm.id}>
+                          <TableCell className="font-medium">
+                            <span className="flex items-center gap-2">
+                              {farm.farm_name}
+                              {farm.verified && <ShieldCheck className="w-4 h-4 text-primary" />}
+                            </span>
+                          </TableCell>
+                          <TableCell>{farm.farm_location}</TableCell>
+                          <TableCell>
+                            {farm.rating || 0} ({farm.total_reviews || 0})
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Switch
+                              checked={!!farm.verified}
+                              disabled={processingId === farm.id}
+                              onCheckedChange={(checked) => toggleVerified(farm, checked)}
+                              aria-label={`Verify ${farm.farm_name}`}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setRejectionReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejecting?.farm_name}</DialogTitle>
+            <DialogDescription>
+              The applicant will be notified with the reason you give.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection_reason">Reason</Label>
+            <Textarea
+              id="rejection_reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="e.g. Farm location could not be confirmed"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectionReason.trim() || processingId === rejecting?.id}
+              onClick={() => rejecting && reviewRequest(rejecting, false, rejectionReason)}
+            >
+              {processingId === rejecting?.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Reject Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminConsole;
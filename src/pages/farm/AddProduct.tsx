@@ -1,133 +1,50 @@
-import { useState, useEffect } from "react";
+import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useFarmProfile } from "@/hooks/use-farm-profile";
+import { useCreateProduct } from "@/hooks/use-products";
+import { useDetectionRuns } from "@/hooks/use-detections";
+import ProductForm, { type ProductFields } from "@/components/ProductForm";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { toast } from "sonner";
 import { ArrowLeft, Loader2, Package } from "lucide-react";
 
 const AddProduct = () => {
   const navigate = useNavigate();
-  const [loading, setLoading] = useState(true);
-  const [submitting, setSubmitting] = useState(false);
-  const [farmId, setFarmId] = useState<string | null>(null);
-
-  const [formData, setFormData] = useState({
-    name: "",
-    description: "",
-    product_type: "fruit" as "fruit" | "shoot",
-    price_per_unit: "",
-    available_quantity: "",
-    unit: "kg",
-    harvest_date: "",
-    expiry_date: "",
-    image_url: "",
-  });
+  const { user, farm, isLoading: farmLoading, error: farmError } = useFarmProfile();
+  const createProduct = useCreateProduct();
+  const { data: detections = [], isLoading: detectionsLoading } = useDetectionRuns(
+    farm ? user?.id : undefined
+  );
+  const loading = farmLoading || (!!farm && detectionsLoading);
 
   useEffect(() => {
-    checkFarmProfile();
-  }, []);
-
-  const checkFarmProfile = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        navigate("/auth/login");
-        return;
-      }
-
-      const { data: farm, error } = await supabase
-        .from("farm_profiles")
-        .select("id")
-        .eq("user_id", session.user.id)
-        .maybeSingle();
-
-      if (error) throw error;
+    if (farmLoading) return;
 
-      if (!farm) {
-        toast.error("You don't have a farm profile");
-        navigate("/dashboard");
-        return;
-      }
-
-      setFarmId(farm.id);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to load farm profile";
-      toast.error(message);
+    if (farmError) {
+      toast.error(farmError.message || "Failed to load farm profile");
       navigate("/dashboard");
-    } finally {
-      setLoading(false);
+    } else if (!farm) {
+      navigate("/farm/apply");
     }
-  };
+  }, [farmLoading, farmError, farm]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!farmId) {
+  const handleSubmit = (fields: ProductFields) => {
+    if (!farm) {
       toast.error("No farm profile found");
       return;
     }
 
-    if (!formData.name.trim()) {
-      toast.error("Product name is required");
-      return;
-    }
-
-    const price = parseFloat(formData.price_per_unit);
-    if (isNaN(price) || price <= 0) {
-      toast.error("Price must be greater than 0");
-      return;
-    }
-
-    const quantity = parseInt(formData.available_quantity);
-    if (isNaN(quantity) || quantity <= 0) {
-      toast.error("Quantity must be greater than 0");
-      return;
-    }
-
-    if (!formData.harvest_date) {
-      toast.error("Harvest date is required");
-      return;
-    }
-
-    setSubmitting(true);
-
-    try {
-      const { error } = await supabase.from("products").insert({
-        farm_id: farmId,
-        name: formData.name.trim(),
-        description: formData.description.trim() || null,
-        product_type: formData.product_type,
-        price_per_unit: price,
-        available_quantity: quantity,
-        unit: formData.unit,
-        harvest_date: formData.harvest_date,
-        expiry_date: formData.expiry_date || null,
-        image_url: formData.image_url.trim() || null,
-        is_active: true,
-      });
-
-      if (error) throw error;
-
-      toast.success("Product added successfully");
-      navigate("/farm/products");
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to add product";
-      toast.error(message);
-    } finally {
-      setSubmitting(false);
-    }
+    createProduct.mutate(
+      { ...fields, farm_id: farm.user_id, is_active: true },
+      {
+        onSuccess: () => {
+          toast.success("Product added successfully");
+          navigate("/farm/products");
+        },
+        onError: (error) => toast.error(error.message || "Failed to add product"),
+      }
+    );
   };
 
   if (loading) {
@@ -138,6 +55,8 @@ const AddProduct = () => {
     );
   }
 
+  if (!farm) return null;
+
   return (
     <div className="min-h-screen bg-gradient-hero">
       <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
@@ -167,144 +86,14 @@ const AddProduct = () => {
               </div>
             </div>
 
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="name">Product Name *</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  placeholder="e.g., Gros Michel Bananas"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Describe your product..."
-                  rows={3}
-                />
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="product_type">Product Type *</Label>
-                  <Select
-                    value={formData.product_type}
-                    onValueChange={(value: "fruit" | "shoot") =>
-                      setFormData({ ...formData, product_type: value })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="fruit">Fruit</SelectItem>
-                      <SelectItem value="shoot">Shoot</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="unit">Unit</Label>
-                  <Select
-                    value={formData.unit}
-                    onValueChange={(value) => setFormData({ ...formData, unit: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="kg">Kilogram (kg)</SelectItem>
-                      <SelectItem value="bunch">Bunch</SelectItem>
-                      <SelectItem value="piece">Piece</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="price">Price per Unit (฿) *</Label>
-                  <Input
-                    id="price"
-                    type="number"
-                    min="0.01"
-                    step="0.01"
-                    value={formData.price_per_unit}
-                    onChange={(e) => setFormData({ ...formData, price_per_unit: e.target.value })}
-                    placeholder="0.00"
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="quantity">Available Quantity *</Label>
-                  <Input
-                    id="quantity"
-                    type="number"
-                    min="1"
-                    value={formData.available_quantity}
-                    onChange={(e) => setFormData({ ...formData, available_quantity: e.target.value })}
-                    placeholder="0"
-                    required
-                  />
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="harvest_date">Harvest Date *</Label>
-                  <Input
-                    id="harvest_date"
-                    type="date"
-                    value={formData.harvest_date}
-                    onChange={(e) => setFormData({ ...formData, harvest_date: e.target.value })}
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="expiry_date">Expiry Date</Label>
-                  <Input
-                    id="expiry_date"
-                    type="date"
-                    value={formData.expiry_date}
-                    onChange={(e) => setFormData({ ...formData, expiry_date: e.target.value })}
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="image_url">Image URL</Label>
-                <Input
-                  id="image_url"
-                  type="url"
-                  value={formData.image_url}
-                  onChange={(e) => setFormData({ ...formData, image_url: e.target.value })}
-                  placeholder="https://example.com/image.jpg"
-                />
-              </div>
-
-              <div className="flex gap-4 pt-4">
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="flex-1"
-                  onClick={() => navigate("/farm/products")}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit" className="flex-1" disabled={submitting}>
-                  {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-                  Add Product
-                </Button>
-              </div>
-            </form>
+            <ProductForm
+              userId={farm.user_id}
+              detections={detections}
+              submitting={createProduct.isPending}
+              submitLabel="Add Product"
+              onSubmit={handleSubmit}
+              onCancel={() => navigate("/farm/products")}
+            />
           </Card>
         </div>
       </div>
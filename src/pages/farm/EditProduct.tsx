@@ -0,0 +1,124 @@
+import { useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useFarmProfile } from "@/hooks/use-farm-profile";
+import { useEditableProduct, useProductOpenOrders, useUpdateProduct } from "@/hooks/use-products";
+import { useDetectionRuns } from "@/hooks/use-detections";
+import ProductForm, { type ProductFields } from "@/components/ProductForm";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2, Pencil } from "lucide-react";
+
+const EditProduct = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, farm, isLoading: farmLoading } = useFarmProfile();
+  const { data: product, isLoading: productLoading, error } = useEditableProduct(id, farm?.user_id);
+  const { data: openOrders = 0, isLoading: openOrdersLoading } = useProductOpenOrders(id);
+  const { data: detections = [], isLoading: detectionsLoading } = useDetectionRuns(
+    farm ? user?.id : undefined
+  );
+  const updateProduct = useUpdateProduct();
+  const loading = farmLoading || productLoading || openOrdersLoading || (!!farm && detectionsLoading);
+
+  useEffect(() => {
+    if (!farmLoading && !farm) navigate("/farm/apply");
+  }, [farmLoading, farm]);
+
+  useEffect(() => {
+    if (error) {
+      toast.error(error.message || "Failed to load product");
+      navigate("/farm/products");
+    } else if (product === null) {
+      toast.error("Product not found");
+      navigate("/farm/products");
+    }
+  }, [error, product]);
+
+  const handleSubmit = (fields: ProductFields) => {
+    if (!product) return;
+
+    // The database rejects price, unit and quantity changes while orders are open
+    const updates =
+      openOrders > 0
+        ? {
+            ...fields,
+            price_per_unit: product.price_per_unit,
+            unit: product.unit,
+            available_quantity: product.available_quantity,
+          }
+        : fields;
+
+    updateProduct.mutate(
+      { productId: product.id, updates },
+      {
+        onSuccess: () => {
+          toast.success("Product updated successfully");
+          navigate("/farm/products");
+        },
+        onError: (error) => toast.error(error.message || "Failed to update product"),
+      }
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-hero flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!farm || !product) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <nav className="border-b border-border bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/farm/products")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl">🍌</span>
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Edit Product
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Card className="p-6">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+                <Pencil className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">{product.name}</h2>
+                <p className="text-sm text-muted-foreground">
+                  {openOrders > 0
+                    ? `${openOrders} open order${openOrders > 1 ? "s" : ""} for this product`
+                    : "Update the details of this listing"}
+                </p>
+              </div>
+            </div>
+
+            <ProductForm
+              userId={farm.user_id}
+              product={product}
+              detections={detections}
+              pricingLocked={openOrders > 0}
+              submitting={updateProduct.isPending}
+              submitLabel="Save Changes"
+              onSubmit={handleSubmit}
+              onCancel={() => navigate("/farm/products")}
+            />
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditProduct;
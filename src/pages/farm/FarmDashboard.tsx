@@ -1,98 +1,42 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { useFarmProfile } from "@/hooks/use-farm-profile";
+import { useFarmProducts } from "@/hooks/use-products";
+import { useFarmOrders } from "@/hooks/use-orders";
+import NotificationBell from "@/components/NotificationBell";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { Package, ShoppingCart, Settings, LogOut, Loader2, TrendingUp, Star } from "lucide-react";
 
-interface FarmProfile {
-  id: string;
-  farm_name: string;
-  farm_location: string;
-  farm_description: string | null;
-  rating: number | null;
-  total_reviews: number | null;
-  total_sales: number | null;
-  verified: boolean | null;
-}
-
-interface Stats {
-  totalProducts: number;
-  activeProducts: number;
-  totalOrders: number;
-  pendingOrders: number;
-}
-
 const FarmDashboard = () => {
   const navigate = useNavigate();
-  const [loading, setLoading] = useState(true);
-  const [farm, setFarm] = useState<FarmProfile | null>(null);
-  const [stats, setStats] = useState<Stats>({
-    totalProducts: 0,
-    activeProducts: 0,
-    totalOrders: 0,
-    pendingOrders: 0,
-  });
+  const { farm, isLoading: farmLoading, error: farmError } = useFarmProfile();
+  const { data: products = [], isLoading: productsLoading, error: productsError } =
+    useFarmProducts(farm?.user_id);
+  const { data: orders = [], isLoading: ordersLoading, error: ordersError } =
+    useFarmOrders(farm?.user_id);
+  const loading = farmLoading || productsLoading || ordersLoading;
+  const error = farmError || productsError || ordersError;
 
   useEffect(() => {
-    loadFarmData();
-  }, []);
-
-  const loadFarmData = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-
-      if (!session) {
-        navigate("/auth/login");
-        return;
-      }
-
-      // Get farm profile
-      const { data: farmData, error: farmError } = await supabase
-        .from("farm_profiles")
-        .select("*")
-        .eq("user_id", session.user.id)
-        .maybeSingle();
-
-      if (farmError) throw farmError;
-
-      if (!farmData) {
-        toast.error("No farm profile found");
-        navigate("/dashboard");
-        return;
-      }
-
-      setFarm(farmData);
-
-      // Get product stats
-      const { data: products, error: productsError } = await supabase
-        .from("products")
-        .select("id, is_active")
-        .eq("farm_id", farmData.id);
+    if (farmLoading) return;
 
-      if (productsError) throw productsError;
-
-      // Get order stats
-      const { data: orders, error: ordersError } = await supabase
-        .from("orders")
-        .select("id, status")
-        .eq("farm_id", farmData.id);
-
-      if (ordersError) throw ordersError;
-
-      setStats({
-        totalProducts: products?.length || 0,
-        activeProducts: products?.filter((p) => p.is_active).length || 0,
-        totalOrders: orders?.length || 0,
-        pendingOrders: orders?.filter((o) => o.status === "pending").length || 0,
-      });
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to load farm data";
-      toast.error(message);
-    } finally {
-      setLoading(false);
+    if (!farm) {
+      navigate("/farm/apply");
     }
+  }, [farmLoading, farm]);
+
+  useEffect(() => {
+    if (error) toast.error(error.message || "Failed to load farm data");
+  }, [error]);
+
+  const stats = {
+    totalProducts: products.length,
+    activeProducts: products.filter((p) => p.is_active).length,
+    totalOrders: orders.length,
+    pendingOrders: orders.filter((o) => o.status === "pending").length,
   };
 
   const handleLogout = async () => {
@@ -119,10 +63,13 @@ const FarmDashboard = () => {
               Farm Dashboard
             </h1>
           </div>
-          <Button variant="ghost" onClick={handleLogout}>
-            <LogOut className="w-4 h-4 mr-2" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-2">
+            <NotificationBell />
+            <Button variant="ghost" onClick={handleLogout}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Logout
+            </Button>
+          </div>
         </div>
       </nav>
 
@@ -1,9 +1,10 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useFarmProfile } from "@/hooks/use-farm-profile";
+import { useFarmOrderDeadlines, useFarmOrders } from "@/hooks/use-orders";
+import DeadlineBadge from "@/components/DeadlineBadge";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import {
   Table,
   TableBody,
@@ -15,94 +16,32 @@ import {
 import { toast } from "sonner";
 import { ArrowLeft, Loader2, Eye } from "lucide-react";
 
-interface Order {
-  id: string;
-  user_id: string;
-  status: string;
-  total_price: number;
-  quantity: number;
-  created_at: string;
-  products: {
-    name: string;
-  } | null;
-  profiles: {
-    full_name: string;
-  } | null;
-}
-
 const FarmOrders = () => {
   const navigate = useNavigate();
-  const [loading, setLoading] = useState(true);
-  const [orders, setOrders] = useState<Order[]>([]);
+  const { farm, isLoading: farmLoading } = useFarmProfile();
+  const { data: orders = [], isLoading: ordersLoading, error } = useFarmOrders(farm?.user_id);
+  const { data: deadlines = {} } = useFarmOrderDeadlines(farm?.user_id);
+  const [now, setNow] = useState(Date.now);
+  const loading = farmLoading || ordersLoading;
 
+  // Keep the countdowns moving while the page is open
   useEffect(() => {
-    loadOrders();
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
   }, []);
 
-  const loadOrders = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-
-      if (!session) {
-        navigate("/auth/login");
-        return;
-      }
-
-      const { data: farm, error: farmError } = await supabase
-        .from("farm_profiles")
-        .select("id")
-        .eq("user_id", session.user.id)
-        .maybeSingle();
-
-      if (farmError) throw farmError;
-
-      if (!farm) {
-        toast.error("No farm profile found");
-        navigate("/dashboard");
-        return;
-      }
-
-      // Get orders
-      const { data: ordersData, error: ordersError } = await supabase
-        .from("orders")
-        .select(`
-          id,
-          user_id,
-          status,
-          total_price,
-          quantity,
-          created_at,
-          products (name)
-        `)
-        .eq("farm_id", farm.id)
-        .order("created_at", { ascending: false });
-
-      if (ordersError) throw ordersError;
-
-      // Fetch profiles for each order
-      const ordersWithProfiles = await Promise.all(
-        (ordersData || []).map(async (order) => {
-          const { data: profile } = await supabase
-            .from("profiles")
-            .select("full_name")
-            .eq("id", order.user_id)
-            .maybeSingle();
-          
-          return {
-            ...order,
-            profiles: profile,
-          };
-        })
-      );
+  useEffect(() => {
+    if (farmLoading) return;
 
-      setOrders(ordersWithProfiles);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to load orders";
-      toast.error(message);
-    } finally {
-      setLoading(false);
+    if (!farm) {
+      toast.error("No farm profile found");
+      navigate("/dashboard");
     }
-  };
+  }, [farmLoading, farm]);
+
+  useEffect(() => {
+    if (error) toast.error(error.message || "Failed to load orders");
+  }, [error]);
 
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
@@ -153,8 +92,7 @@ const FarmOrders = () => {
                   <TableRow>
                     <TableHead>Order ID</TableHead>
                     <TableHead>Customer</TableHead>
-                    <TableHead>Product</TableHead>
-                    <TableHead>Quantity</TableHead>
+                    <TableHead>Items</TableHead>
                     <TableHead>Total</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Date</TableHead>
@@ -168,15 +106,21 @@ const FarmOrders = () => {
                         {order.id.slice(0, 8)}...
                       </TableCell>
                       <TableCell>
-                        {(order.profiles as any)?.full_name || "Unknown"}
+                        {order.profiles?.full_name || "Unknown"}
+                      </TableCell>
+                      <TableCell>
+                        {order.order_items
+                          .map((item) => `${item.products?.name || "N/A"} × ${item.quantity}`)
+                          .join(", ") || "N/A"}
                       </TableCell>
-                      <TableCell>{(order.products as any)?.name || "N/A"}</TableCell>
-                      <TableCell>{order.quantity}</TableCell>
                       <TableCell>฿{order.total_price.toLocaleString()}</TableCell>
                       <TableCell>
-                        <span className={`px-2 py-1 rounded-full text-xs ${getStatusColor(order.status)}`}>
-                          {order.status}
-                        </span>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className={`px-2 py-1 rounded-full text-xs ${getStatusColor(order.status)}`}>
+                            {order.status}
+                          </span>
+                          {deadlines[order.id] && <DeadlineBadge deadline={deadlines[order.id]} now={now} />}
+                        </div>
                       </TableCell>
                       <TableCell>
                         {new Date(order.created_at).toLocaleDateString()}
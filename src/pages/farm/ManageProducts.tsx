@@ -1,6 +1,7 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useFarmProfile } from "@/hooks/use-farm-profile";
+import { useFarmProducts, useSetProductActive } from "@/hooks/use-products";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -15,107 +16,47 @@ import {
 import { toast } from "sonner";
 import { ArrowLeft, Plus, Loader2, Edit, Trash2, ToggleLeft, ToggleRight } from "lucide-react";
 
-interface Product {
-  id: string;
-  name: string;
-  product_type: string;
-  price_per_unit: number;
-  available_quantity: number;
-  unit: string;
-  harvest_date: string;
-  is_active: boolean | null;
-}
-
 const ManageProducts = () => {
   const navigate = useNavigate();
-  const [loading, setLoading] = useState(true);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [farmId, setFarmId] = useState<string | null>(null);
+  const { farm, isLoading: farmLoading } = useFarmProfile();
+  const { data: products = [], isLoading: productsLoading, error } = useFarmProducts(farm?.user_id);
+  const setProductActive = useSetProductActive(farm?.user_id);
+  const loading = farmLoading || productsLoading;
 
   useEffect(() => {
-    loadProducts();
-  }, []);
-
-  const loadProducts = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-
-      if (!session) {
-        navigate("/auth/login");
-        return;
-      }
-
-      const { data: farm, error: farmError } = await supabase
-        .from("farm_profiles")
-        .select("id")
-        .eq("user_id", session.user.id)
-        .maybeSingle();
-
-      if (farmError) throw farmError;
+    if (farmLoading) return;
 
-      if (!farm) {
-        toast.error("No farm profile found");
-        navigate("/dashboard");
-        return;
-      }
-
-      setFarmId(farm.id);
-
-      const { data, error } = await supabase
-        .from("products")
-        .select("id, name, product_type, price_per_unit, available_quantity, unit, harvest_date, is_active")
-        .eq("farm_id", farm.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-
-      setProducts(data || []);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to load products";
-      toast.error(message);
-    } finally {
-      setLoading(false);
+    if (!farm) {
+      toast.error("No farm profile found");
+      navigate("/dashboard");
     }
-  };
+  }, [farmLoading, farm]);
 
-  const toggleActive = async (productId: string, currentState: boolean | null) => {
-    try {
-      const { error } = await supabase
-        .from("products")
-        .update({ is_active: !currentState })
-        .eq("id", productId);
-
-      if (error) throw error;
-
-      setProducts(products.map((p) =>
-        p.id === productId ? { ...p, is_active: !currentState } : p
-      ));
-
-      toast.success(currentState ? "Product deactivated" : "Product activated");
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to update product";
-      toast.error(message);
-    }
+  useEffect(() => {
+    if (error) toast.error(error.message || "Failed to load products");
+  }, [error]);
+
+  const toggleActive = (productId: string, currentState: boolean | null) => {
+    setProductActive.mutate(
+      { productId, isActive: !currentState },
+      {
+        onSuccess: () => toast.success(currentState ? "Product deactivated" : "Product activated"),
+        onError: (error) => toast.error(error.message || "Failed to update product"),
+      }
+    );
   };
 
-  const deleteProduct = async (productId: string) => {
+  const deleteProduct = (productId: string) => {
     if (!confirm("Are you sure you want to delete this product?")) return;
 
-    try {
-      // Soft delete by setting is_active to false
-      const { error } = await supabase
-        .from("products")
-        .update({ is_active: false })
-        .eq("id", productId);
-
-      if (error) throw error;
-
-      setProducts(products.filter((p) => p.id !== productId));
-      toast.success("Product deleted");
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to delete product";
-      toast.error(message);
-    }
+    // Soft delete by setting is_active to false
+    setProductActive.mutate(
+      { productId, isActive: false },
+      {
+        onSuccess: () => toast.success("Product deleted"),
+        onError: (error) => toast.error(error.message || "Failed to delete product"),
+      }
+    );
   };
 
   if (loading) {
@@ -194,7 +135,7 @@ const ManageProducts = () => {
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => navigate(`/farm/products/edit/${product.id}`)}
+                            onClick={() => navigate(`/farm/products/${product.id}/edit`)}
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
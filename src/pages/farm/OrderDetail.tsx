@@ -1,157 +1,144 @@
 import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { useFarmProfile } from "@/hooks/use-farm-profile";
+import { getThumbnailUrl } from "@/lib/images";
+import { FARM_REJECT_REASONS, canCancelOrder } from "@/lib/cancellation";
+import {
+  useCancelOrder,
+  useFarmOrder,
+  useRefundPayment,
+  useReviewPayment,
+  useUpdateOrderStatus,
+} from "@/hooks/use-orders";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import CancelOrderDialog from "@/components/CancelOrderDialog";
+import OrderTimeline from "@/components/OrderTimeline";
 import { toast } from "sonner";
-import { ArrowLeft, Loader2, Package, User, MapPin, Truck } from "lucide-react";
+import { ArrowLeft, Clock, Loader2, Package, User, MapPin, Truck, Wallet } from "lucide-react";
 import type { Database } from "@/integrations/supabase/types";
 
 type OrderStatus = Database["public"]["Enums"]["order_status"];
-
-interface OrderData {
-  id: string;
-  user_id: string;
-  status: OrderStatus;
-  total_price: number;
-  quantity: number;
-  delivery_address: string;
-  delivery_notes: string | null;
-  tracking_number: string | null;
-  created_at: string;
-  confirmed_at: string | null;
-  shipped_at: string | null;
-  delivered_at: string | null;
-  products: {
-    id: string;
-    name: string;
-    price_per_unit: number;
-    unit: string;
-    image_url: string | null;
-  } | null;
-  profiles: {
-    full_name: string;
-    phone: string | null;
-  } | null;
-}
+type PaymentStatus = Database["public"]["Enums"]["payment_status"];
 
 const OrderDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [loading, setLoading] = useState(true);
-  const [updating, setUpdating] = useState(false);
-  const [order, setOrder] = useState<OrderData | null>(null);
+  const { farm, isLoading: farmLoading } = useFarmProfile();
+  const { data: order, isLoading: orderLoading, error } = useFarmOrder(id, farm?.user_id);
+  const updateOrderStatus = useUpdateOrderStatus();
+  const reviewPaymentSlip = useReviewPayment();
+  const refundOrderPayment = useRefundPayment();
+  const cancelOrder = useCancelOrder();
   const [trackingNumber, setTrackingNumber] = useState("");
+  const [rejecting, setRejecting] = useState(false);
+  const loading = farmLoading || orderLoading;
+  const updating =
+    updateOrderStatus.isPending ||
+    reviewPaymentSlip.isPending ||
+    refundOrderPayment.isPending ||
+    cancelOrder.isPending;
 
   useEffect(() => {
-    if (id) loadOrder();
-  }, [id]);
+    if (farmLoading) return;
 
-  const loadOrder = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
+    if (!farm) {
+      toast.error("No farm profile found");
+      navigate("/dashboard");
+    }
+  }, [farmLoading, farm]);
 
-      if (!session) {
-        navigate("/auth/login");
-        return;
-      }
+  useEffect(() => {
+    if (error) {
+      toast.error(error.message || "Failed to load order");
+      navigate("/farm/orders");
+    } else if (order === null) {
+      toast.error("Order not found");
+      navigate("/farm/orders");
+    }
+  }, [error, order]);
 
-      const { data: farm, error: farmError } = await supabase
-        .from("farm_profiles")
-        .select("id")
-        .eq("user_id", session.user.id)
-        .maybeSingle();
+  useEffect(() => {
+    if (order) setTrackingNumber(order.tracking_number || "");
+  }, [order?.tracking_number]);
+
+  const updateStatus = (newStatus: OrderStatus) => {
+    if (!order) return;
 
-      if (farmError) throw farmError;
+    // The database validates the transition and stamps the status timestamps
+    const updates: Database["public"]["Tables"]["orders"]["Update"] = { status: newStatus };
 
-      if (!farm) {
-        toast.error("No farm profile found");
-        navigate("/dashboard");
+    if (newStatus === "shipped") {
+      if (!trackingNumber.trim()) {
+        toast.error("Please enter a tracking number");
         return;
       }
+      updates.tracking_number = trackingNumber.trim();
+    }
 
-      const { data, error } = await supabase
-        .from("orders")
-        .select(`
-          id,
-          user_id,
-          status,
-          total_price,
-          quantity,
-          delivery_address,
-          delivery_notes,
-          tracking_number,
-          created_at,
-          confirmed_at,
-          shipped_at,
-          delivered_at,
-          products (id, name, price_per_unit, unit, image_url),
-          profiles:user_id (full_name, phone)
-        `)
-        .eq("id", id)
-        .eq("farm_id", farm.id)
-        .maybeSingle();
-
-      if (error) throw error;
-
-      if (!data) {
-        toast.error("Order not found");
-        navigate("/farm/orders");
-        return;
+    updateOrderStatus.mutate(
+      { orderId: order.id, updates },
+      {
+        onSuccess: () => toast.success(`Order ${newStatus}`),
+        onError: (error) => toast.error(error.message || "Failed to update order"),
       }
+    );
+  };
 
-      setOrder(data as unknown as OrderData);
-      setTrackingNumber(data.tracking_number || "");
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to load order";
-      toast.error(message);
-      navigate("/farm/orders");
-    } finally {
-      setLoading(false);
+  const reviewPayment = (approve: boolean) => {
+    const payment = order?.payments[0];
+    if (!payment) return;
+
+    let reason: string | undefined;
+    if (!approve) {
+      reason = prompt("Why is this slip being rejected?") || undefined;
     }
+
+    reviewPaymentSlip.mutate(
+      { paymentId: payment.id, approve, reason },
+      {
+        onSuccess: () => toast.success(approve ? "Payment confirmed" : "Slip rejected"),
+        onError: (error) => toast.error(error.message || "Failed to review payment"),
+      }
+    );
   };
 
-  const updateStatus = async (newStatus: OrderStatus) => {
+  const refundPayment = () => {
     if (!order) return;
+    if (!confirm("Confirm that you have returned the payment to the buyer?")) return;
 
-    setUpdating(true);
-
-    try {
-      const updates: Record<string, unknown> = { status: newStatus };
-
-      if (newStatus === "confirmed") {
-        updates.confirmed_at = new Date().toISOString();
-      } else if (newStatus === "shipped") {
-        if (!trackingNumber.trim()) {
-          toast.error("Please enter a tracking number");
-          setUpdating(false);
-          return;
-        }
-        updates.shipped_at = new Date().toISOString();
-        updates.tracking_number = trackingNumber.trim();
-      } else if (newStatus === "delivered") {
-        updates.delivered_at = new Date().toISOString();
-      }
+    refundOrderPayment.mutate(order.id, {
+      onSuccess: () => toast.success("Payment marked as refunded"),
+      onError: (error) => toast.error(error.message || "Failed to refund payment"),
+    });
+  };
 
-      const { error } = await supabase
-        .from("orders")
-        .update(updates)
-        .eq("id", order.id);
+  const rejectOrder = (reason: string) => {
+    if (!order) return;
 
-      if (error) throw error;
+    cancelOrder.mutate(
+      { orderId: order.id, reason },
+      {
+        onSuccess: () => {
+          toast.success("Order rejected");
+          setRejecting(false);
+        },
+        onError: (error) => toast.error(error.message || "Failed to reject order"),
+      }
+    );
+  };
 
-      setOrder({ ...order, ...updates } as OrderData);
-      toast.success(`Order ${newStatus}`);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : "Failed to update order";
-      toast.error(message);
-    } finally {
-      setUpdating(false);
-    }
+  const getPaymentStatusColor = (status: PaymentStatus) => {
+    const colors: Record<PaymentStatus, string> = {
+      unpaid: "bg-yellow-100 text-yellow-800",
+      awaiting_verification: "bg-blue-100 text-blue-800",
+      paid: "bg-green-100 text-green-800",
+      refunded: "bg-gray-100 text-gray-800",
+    };
+    return colors[status];
   };
 
   const getStatusColor = (status: string) => {
@@ -210,6 +197,15 @@ const OrderDetail = () => {
             </p>
           </Card>
 
+          {/* History */}
+          <Card className="p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <Clock className="w-5 h-5 text-muted-foreground" />
+              <h3 className="font-semibold">History</h3>
+            </div>
+            <OrderTimeline orderId={order.id} />
+          </Card>
+
           {/* Customer Info */}
           <Card className="p-6">
             <div className="flex items-center gap-3 mb-4">
@@ -217,8 +213,8 @@ const OrderDetail = () => {
               <h3 className="font-semibold">Customer Information</h3>
             </div>
             <div className="space-y-2">
-              <p><strong>Name:</strong> {(order.profiles as any)?.full_name || "N/A"}</p>
-              <p><strong>Phone:</strong> {(order.profiles as any)?.phone || "N/A"}</p>
+              <p><strong>Name:</strong> {order.profiles?.full_name || "N/A"}</p>
+              <p><strong>Phone:</strong> {order.profiles?.phone || "N/A"}</p>
             </div>
           </Card>
 
@@ -229,6 +225,14 @@ const OrderDetail = () => {
               <h3 className="font-semibold">Delivery Information</h3>
             </div>
             <div className="space-y-2">
+              {order.delivery_snapshot && (
+                <p>
+                  <strong>Recipient:</strong> {order.delivery_snapshot.recipient_name} ·{" "}
+                  <a href={`tel:${order.delivery_snapshot.phone}`} className="text-primary hover:underline">
+                    {order.delivery_snapshot.phone}
+                  </a>
+                </p>
+              )}
               <p><strong>Address:</strong> {order.delivery_address}</p>
               {order.delivery_notes && (
                 <p><strong>Notes:</strong> {order.delivery_notes}</p>
@@ -245,22 +249,102 @@ const OrderDetail = () => {
               <Package className="w-5 h-5 text-muted-foreground" />
               <h3 className="font-semibold">Order Items</h3>
             </div>
-            <div className="flex items-center gap-4 p-4 bg-muted/50 rounded-lg">
-              {order.products?.image_url && (
-                <img
-                  src={order.products.image_url}
-                  alt={order.products.name}
-                  className="w-16 h-16 object-cover rounded"
-                />
-              )}
-              <div className="flex-1">
-                <p className="font-medium">{order.products?.name || "N/A"}</p>
-                <p className="text-sm text-muted-foreground">
-                  ฿{order.products?.price_per_unit}/{order.products?.unit} × {order.quantity}
-                </p>
+            <div className="space-y-3">
+              {order.order_items.map((item) => (
+                <div key={item.id} className="flex items-center gap-4 p-4 bg-muted/50 rounded-lg">
+                  {item.products?.image_url && (
+                    <img
+                      src={getThumbnailUrl(item.products.image_url)}
+                      alt={item.products.name}
+                      className="w-16 h-16 object-cover rounded"
+                    />
+                  )}
+                  <div className="flex-1">
+                    <p className="font-medium">{item.products?.name || "N/A"}</p>
+                    <p className="text-sm text-muted-foreground">
+                      ฿{item.unit_price}/{item.products?.unit} × {item.quantity}
+                    </p>
+                  </div>
+                  <p className="font-semibold">฿{item.subtotal.toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+            <Separator className="my-4" />
+            <div className="flex justify-between font-bold">
+              <span>Total</span>
+              <span>฿{order.total_price.toLocaleString()}</span>
+            </div>
+          </Card>
+
+          {/* Payment Info */}
+          <Card className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <Wallet className="w-5 h-5 text-muted-foreground" />
+                <h3 className="font-semibold">Payment</h3>
               </div>
-              <p className="font-semibold">฿{order.total_price.toLocaleString()}</p>
+              <span className={`px-3 py-1 rounded-full text-xs ${getPaymentStatusColor(order.payment_status)}`}>
+                {order.payment_status.replace("_", " ")}
+              </span>
             </div>
+
+            {order.payments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The buyer has not uploaded a transfer slip yet.</p>
+            ) : (
+              <div className="space-y-4">
+                {order.slip_url && (
+                  <a href={order.slip_url} target="_blank" rel="noreferrer">
+                    <img
+                      src={order.slip_url}
+                      alt="Transfer slip"
+                      className="max-h-64 rounded-lg border border-border"
+                    />
+                  </a>
+                )}
+                <div className="space-y-1 text-sm">
+                  <p><strong>Amount:</strong> ฿{order.payments[0].amount.toLocaleString()}</p>
+                  <p><strong>Uploaded:</strong> {new Date(order.payments[0].created_at).toLocaleString()}</p>
+                  {order.payments[0].verification_ref && (
+                    <p><strong>Reference:</strong> {order.payments[0].verification_ref}</p>
+                  )}
+                  {order.payments[0].rejection_reason && (
+                    <p className="text-destructive">
+                      <strong>Rejected:</strong> {order.payments[0].rejection_reason}
+                    </p>
+                  )}
+                  {order.paid_at && (
+                    <p><strong>Paid:</strong> {new Date(order.paid_at).toLocaleString()}</p>
+                  )}
+                </div>
+
+                {order.payment_status === "awaiting_verification" && (
+                  <div className="flex gap-4">
+                    <Button
+                      variant="outline"
+                      className="flex-1"
+                      disabled={updating}
+                      onClick={() => reviewPayment(false)}
+                    >
+                      Reject Slip
+                    </Button>
+                    <Button className="flex-1" disabled={updating} onClick={() => reviewPayment(true)}>
+                      Confirm Payment
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {order.status === "cancelled" && order.payment_status === "paid" && (
+              <Button
+                variant="outline"
+                className="w-full mt-4"
+                disabled={updating}
+                onClick={refundPayment}
+              >
+                Mark as Refunded
+              </Button>
+            )}
           </Card>
 
           {/* Actions */}
@@ -295,12 +379,17 @@ const OrderDetail = () => {
                   </div>
                   <Button
                     onClick={() => updateStatus("shipped")}
-                    disabled={updating}
+                    disabled={updating || order.payment_status !== "paid"}
                     className="w-full"
                   >
                     {updating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                     Mark as Shipped
                   </Button>
+                  {order.payment_status !== "paid" && (
+                    <p className="text-sm text-muted-foreground text-center">
+                      Orders can be shipped once payment is confirmed.
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -314,8 +403,34 @@ const OrderDetail = () => {
                   Mark as Delivered
                 </Button>
               )}
+
+              {canCancelOrder(order.status) && (
+                <Button
+                  variant="outline"
+                  onClick={() => setRejecting(true)}
+                  disabled={updating}
+                  className="w-full mt-4 text-destructive"
+                >
+                  Reject Order
+                </Button>
+              )}
             </Card>
           )}
+
+          <CancelOrderDialog
+            open={rejecting}
+            onOpenChange={setRejecting}
+            title="Reject this order?"
+            description={
+              order.payment_status === "paid"
+                ? "The buyer will be notified. Remember to refund their payment afterwards."
+                : "The buyer will be notified and the stock returned to your listing."
+            }
+            reasons={FARM_REJECT_REASONS}
+            confirmLabel="Reject Order"
+            submitting={cancelOrder.isPending}
+            onConfirm={rejectOrder}
+          />
         </div>
       </div>
     </div>
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Set to "nominatim" to geocode addresses online; defaults to the offline province table. */
+  readonly VITE_GEOCODER?: string;
+  /** Base URL of a self-hosted Nominatim server. */
+  readonly VITE_GEOCODER_URL?: string;
+}
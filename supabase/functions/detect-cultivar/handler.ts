@@ -0,0 +1,144 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createCultivarModel, createGradingModel, qualityFor } from './models.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TOP_K = 3;
+const MAX_TOP_K = 10;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/** Kept apart from index.ts so tests can call it without starting a server. */
+export async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const model = createCultivarModel();
+    if (!model) {
+      return jsonResponse({ error: 'Cultivar detection is unavailable' }, 503);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const form = await req.formData();
+    const image = form.get('image');
+    const topK = Math.min(Math.max(Number(form.get('top_k')) || DEFAULT_TOP_K, 1), MAX_TOP_K);
+
+    if (!(image instanceof File) || !image.type.startsWith('image/')) {
+      return jsonResponse({ error: 'An image file is required' }, 400);
+    }
+
+    if (image.size === 0 || image.size > MAX_IMAGE_BYTES) {
+      return jsonResponse({ error: 'Image must be between 1 byte and 10 MB' }, 400);
+    }
+
+    const { data: cultivars, error: cultivarsError } = await supabase
+      .from('cultivars')
+      .select('id, name, thai_name, slug, image_url')
+      .order('slug');
+
+    if (cultivarsError) throw cultivarsError;
+
+    if (!cultivars || cultivars.length === 0) {
+      return jsonResponse({ error: 'No cultivars are configured' }, 503);
+    }
+
+    const grader = createGradingModel();
+    console.log(`Detecting cultivar with ${model.name} model (${image.size} bytes)...`);
+
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const [scores, grading] = await Promise.all([
+      model.predict(bytes, cultivars.map((c) => c.slug)),
+      grader ? grader.grade(bytes) : null,
+    ]);
+
+    const top = scores.sort((a, b) => b.score - a.score).slice(0, topK);
+    const cultivarBySlug = new Map(cultivars.map((c) => [c.slug, c]));
+
+    // Count active listings so the UI can link straight to the marketplace
+    const { data: listings, error: listingsError } = await supabase
+      .from('products')
+      .select('cultivar_id')
+      .eq('is_active', true)
+      .gt('available_quantity', 0)
+      .in('cultivar_id', top.map((p) => cultivarBySlug.get(p.label)!.id));
+
+    if (listingsError) throw listingsError;
+
+    const predictions = top.map((p) => {
+      const cultivar = cultivarBySlug.get(p.label)!;
+      return {
+        cultivar,
+        confidence: Math.round(p.score * 1000) / 1000,
+        listing_count: (listings ?? []).filter((l) => l.cultivar_id === cultivar.id).length,
+      };
+    });
+
+    console.log(`Top prediction: ${predictions[0].cultivar.slug} (${predictions[0].confidence})`);
+
+    const quality = grading ? qualityFor(grading) : null;
+
+    // Stub results are made up, so they must never become product evidence
+    const simulated = model.name === 'stub' || grader?.name === 'stub';
+
+    // Signed-in users keep a history of their runs; anonymous detections are not stored,
+    // and neither are runs without a grade or from a stub model
+    let detectionRunId: string | null = null;
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (user && grader && grading && quality && !simulated) {
+      const extension = image.name.split('.').pop() || 'jpg';
+      const imagePath = `${user.id}/${crypto.randomUUID()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('detection-images')
+        .upload(imagePath, bytes, { contentType: image.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data: run, error: runError } = await supabase
+        .from('detection_runs')
+        .insert({
+          user_id: user.id,
+          image_path: imagePath,
+          cultivar_id: predictions[0].cultivar.id,
+          confidence: predictions[0].confidence,
+          ripeness_stage: grading.ripeness,
+          defects: grading.defects,
+          quality,
+          model: `${model.name}+${grader.name}`,
+        })
+        .select('id')
+        .single();
+
+      if (runError) throw runError;
+
+      detectionRunId = run.id;
+    }
+
+    return jsonResponse({
+      success: true,
+      model: model.name,
+      simulated,
+      predictions,
+      grading: grading && { ripeness_stage: grading.ripeness, defects: grading.defects, quality },
+      detection_run_id: detectionRunId,
+    });
+  } catch (error) {
+    console.error('Error in detect-cultivar:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+}
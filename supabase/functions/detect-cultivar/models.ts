@@ -0,0 +1,188 @@
+export interface CultivarPrediction {
+  /** Cultivar slug, matching `cultivars.slug` */
+  label: string;
+  score: number;
+}
+
+export interface CultivarModel {
+  readonly name: string;
+  /** Scores every label for the image. Scores sum to 1. */
+  predict(image: Uint8Array, labels: string[]): Promise<CultivarPrediction[]>;
+}
+
+/**
+ * Offline model for local development only, enabled with CULTIVAR_MODEL=stub.
+ * Deterministic: the same image bytes always produce the same ranking, derived
+ * from a SHA-256 digest of the image and each label. The ranking means nothing.
+ */
+export class StubCultivarModel implements CultivarModel {
+  readonly name = 'stub';
+
+  async predict(image: Uint8Array, labels: string[]): Promise<CultivarPrediction[]> {
+    const imageDigest = new Uint8Array(await crypto.subtle.digest('SHA-256', image as BufferSource));
+
+    const logits = await Promise.all(
+      labels.map(async (label) => {
+        const labelDigest = new Uint8Array(
+          await crypto.subtle.digest('SHA-256', new TextEncoder().encode(label)),
+        );
+        let logit = 0;
+        for (let i = 0; i < 4; i++) {
+          logit += (imageDigest[i] ^ labelDigest[i]) / 255;
+        }
+        return logit * 2;
+      }),
+    );
+
+    return softmax(labels, logits);
+  }
+}
+
+/**
+ * Sends the image to a hosted image classifier. The service is expected to
+ * answer with `{ predictions: [{ label, score }] }`, where labels are cultivar
+ * slugs. Labels the service does not know are scored 0.
+ */
+export class HttpCultivarModel implements CultivarModel {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly apiKey: string) {}
+
+  async predict(image: Uint8Array, labels: string[]): Promise<CultivarPrediction[]> {
+    const form = new FormData();
+    form.append('file', new Blob([image as BlobPart]), 'image');
+    form.append('labels', JSON.stringify(labels));
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Cultivar model responded with ${response.status}`);
+    }
+
+    const result = await response.json();
+    const scores = new Map<string, number>(
+      (result.predictions ?? []).map((p: CultivarPrediction) => [p.label, Number(p.score) || 0]),
+    );
+
+    return labels.map((label) => ({ label, score: scores.get(label) ?? 0 }));
+  }
+}
+
+export const RIPENESS_STAGES = ['green', 'turning', 'ripe', 'fully_ripe', 'overripe'] as const;
+export type RipenessStage = typeof RIPENESS_STAGES[number];
+
+export const DEFECTS = ['bruising', 'black_spots', 'scarring', 'split_peel', 'mold'] as const;
+export type Defect = typeof DEFECTS[number];
+
+export interface GradingResult {
+  ripeness: RipenessStage;
+  defects: Defect[];
+}
+
+export interface GradingModel {
+  readonly name: string;
+  grade(image: Uint8Array): Promise<GradingResult>;
+}
+
+/**
+ * Offline grader for local development only, enabled with GRADING_MODEL=stub.
+ * Deterministic: the ripeness stage and defect flags are read from bytes of the
+ * image's SHA-256 digest, so they say nothing about the fruit.
+ */
+export class StubGradingModel implements GradingModel {
+  readonly name = 'stub';
+
+  async grade(image: Uint8Array): Promise<GradingResult> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', image as BufferSource));
+
+    return {
+      ripeness: RIPENESS_STAGES[digest[8] % RIPENESS_STAGES.length],
+      // Roughly one image in four gets each defect
+      defects: DEFECTS.filter((_, i) => digest[9 + i] < 64),
+    };
+  }
+}
+
+/**
+ * Sends the image to a hosted ripeness/defect model. The service is expected
+ * to answer with `{ ripeness, defects }` using the stage and defect names above.
+ */
+export class HttpGradingModel implements GradingModel {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly apiKey: string) {}
+
+  async grade(image: Uint8Array): Promise<GradingResult> {
+    const form = new FormData();
+    form.append('file', new Blob([image as BlobPart]), 'image');
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Grading model responded with ${response.status}`);
+    }
+
+    const result = await response.json();
+
+    if (!RIPENESS_STAGES.includes(result.ripeness)) {
+      throw new Error(`Grading model returned unknown ripeness "${result.ripeness}"`);
+    }
+
+    return {
+      ripeness: result.ripeness,
+      defects: (result.defects ?? []).filter((d: Defect) => DEFECTS.includes(d)),
+    };
+  }
+}
+
+/** Overall grade shown to buyers, from ripeness and the number of defects */
+export function qualityFor({ ripeness, defects }: GradingResult) {
+  if (ripeness === 'overripe' || defects.length >= 3) return 'Fair';
+  if (defects.length === 0 && ripeness !== 'green') return 'Excellent';
+  return 'Good';
+}
+
+function softmax(labels: string[], logits: number[]): CultivarPrediction[] {
+  const max = Math.max(...logits);
+  const exps = logits.map((l) => Math.exp(l - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return labels.map((label, i) => ({ label, score: exps[i] / sum }));
+}
+
+/** The configured cultivar model, or null when detection is not set up. */
+export function createCultivarModel(): CultivarModel | null {
+  switch (Deno.env.get('CULTIVAR_MODEL')) {
+    case 'http':
+      return new HttpCultivarModel(
+        Deno.env.get('CULTIVAR_MODEL_URL')!,
+        Deno.env.get('CULTIVAR_MODEL_API_KEY')!,
+      );
+    case 'stub':
+      return new StubCultivarModel();
+    default:
+      return null;
+  }
+}
+
+/** The configured grading model, or null when grading is not set up. */
+export function createGradingModel(): GradingModel | null {
+  switch (Deno.env.get('GRADING_MODEL')) {
+    case 'http':
+      return new HttpGradingModel(
+        Deno.env.get('GRADING_MODEL_URL')!,
+        Deno.env.get('GRADING_MODEL_API_KEY')!,
+      );
+    case 'stub':
+      return new StubGradingModel();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,161 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const DEFAULT_BATCH_SIZE = 100;
+// Bounds one run; anything left over is picked up by the next scheduled run
+const MAX_BATCHES = 50;
+
+interface ExpiryAction {
+  order_id: string;
+  kind: 'farm_confirm' | 'pickup_window';
+  deadline: string;
+  // Cancellations only
+  reason?: string;
+  // Reminders only: how long before the deadline this reminder was due
+  hours_before?: number;
+}
+
+// What public.run_order_expiry returns for one batch
+interface BatchResult {
+  dry_run: boolean;
+  now: string;
+  processed: number;
+  cancelled: ExpiryAction[];
+  reminded: ExpiryAction[];
+  skipped: number;
+  next_cursor: string | null;
+}
+
+interface RunReport {
+  dry_run: boolean;
+  now: string;
+  started_at: string;
+  finished_at: string;
+  batches: number;
+  processed: number;
+  cancelled: ExpiryAction[];
+  reminded: ExpiryAction[];
+  skipped: number;
+  // False when the run stopped at MAX_BATCHES with orders still due
+  complete: boolean;
+}
+
+/**
+ * Expires overdue orders and sends deadline reminders according to the
+ * order_expiry_rules table. Runs every 15 minutes from pg_cron and replaces the
+ * old auto-cancel-orders and check-farm-confirm jobs.
+ *
+ * Body (all optional): `{ dry_run, batch_size, now }`. `dry_run` reports what
+ * would happen without changing anything, and `now` evaluates deadlines at
+ * another moment. `now` is only accepted together with `dry_run: true`, so
+ * rules can be tried out against any database without acting early.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Only the cron job (or an operator holding the service role key) may run this
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    if (token !== supabaseKey) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // An empty body is a plain scheduled run; anything else must be a JSON object
+    let body: Record<string, unknown>;
+    try {
+      const text = await req.text();
+      body = text.trim() ? JSON.parse(text) : {};
+    } catch {
+      return jsonResponse({ error: 'Body must be valid JSON' }, 400);
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return jsonResponse({ error: 'Body must be a JSON object' }, 400);
+    }
+
+    const dryRun = body.dry_run === true;
+    const batchSize =
+      typeof body.batch_size === 'number' && Number.isInteger(body.batch_size) && body.batch_size > 0
+        ? body.batch_size
+        : DEFAULT_BATCH_SIZE;
+
+    // A moved clock would cancel real orders before their deadline, so it is for dry runs only
+    if (body.now !== undefined && !dryRun) {
+      return jsonResponse({ error: '`now` can only be set for a dry run' }, 400);
+    }
+
+    const requestedNow = typeof body.now === 'string' ? new Date(body.now) : null;
+    if (body.now !== undefined && (!requestedNow || Number.isNaN(requestedNow.getTime()))) {
+      return jsonResponse({ error: '`now` must be an ISO 8601 timestamp' }, 400);
+    }
+
+    // Fixed for the whole run so every batch sees the same deadlines
+    const now = (requestedNow ?? new Date()).toISOString();
+
+    console.log(`Running order-scheduler${dryRun ? ' (dry run)' : ''} at ${now}...`);
+
+    const report: RunReport = {
+      dry_run: dryRun,
+      now,
+      started_at: new Date().toISOString(),
+      finished_at: '',
+      batches: 0,
+      processed: 0,
+      cancelled: [],
+      reminded: [],
+      skipped: 0,
+      complete: true,
+    };
+
+    let cursor: string | null = null;
+
+    // Each batch is its own transaction, so a failure keeps the work already done
+    do {
+      const { data, error } = await supabase.rpc('run_order_expiry', {
+        _dry_run: dryRun,
+        _batch_size: batchSize,
+        _after: cursor,
+        _now: now,
+      });
+
+      if (error) throw error;
+
+      const batch = data as BatchResult;
+      report.batches += 1;
+      report.processed += batch.processed;
+      report.cancelled.push(...batch.cancelled);
+      report.reminded.push(...batch.reminded);
+      report.skipped += batch.skipped;
+      cursor = batch.next_cursor;
+    } while (cursor && report.batches < MAX_BATCHES);
+
+    report.complete = !cursor;
+    report.finished_at = new Date().toISOString();
+
+    console.log(
+      `Processed ${report.processed} orders in ${report.batches} batches: ` +
+        `${report.cancelled.length} cancelled, ${report.reminded.length} reminded, ${report.skipped} skipped`
+    );
+
+    return jsonResponse({ success: true, report });
+  } catch (error) {
+    console.error('Error in order-scheduler:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { handler } from '../detect-cultivar/handler.ts';
+import { createCultivarModel, StubCultivarModel } from '../detect-cultivar/models.ts';
+
+const LABELS = ['nam-dok-mai', 'mahachanok', 'khiew-sawoey', 'ok-rong'];
+const image = new TextEncoder().encode('not really a mango');
+
+function withCultivarModel(value: string | undefined, fn: () => Promise<void>) {
+  return async () => {
+    const previous = Deno.env.get('CULTIVAR_MODEL');
+    if (value === undefined) Deno.env.delete('CULTIVAR_MODEL');
+    else Deno.env.set('CULTIVAR_MODEL', value);
+    try {
+      await fn();
+    } finally {
+      if (previous === undefined) Deno.env.delete('CULTIVAR_MODEL');
+      else Deno.env.set('CULTIVAR_MODEL', previous);
+    }
+  };
+}
+
+Deno.test('stub model scores every label and the scores sum to 1', async () => {
+  const scores = await new StubCultivarModel().predict(image, LABELS);
+
+  assert.deepEqual(scores.map((s) => s.label), LABELS);
+  assert.ok(scores.every((s) => s.score > 0 && s.score < 1));
+  assert.ok(Math.abs(scores.reduce((sum, s) => sum + s.score, 0) - 1) < 1e-9);
+});
+
+Deno.test('stub model ranks the same image the same way every time', async () => {
+  const model = new StubCultivarModel();
+  const first = await model.predict(image, LABELS);
+  const second = await model.predict(image.slice(), LABELS);
+  const other = await model.predict(new TextEncoder().encode('another picture'), LABELS);
+
+  assert.deepEqual(second, first);
+  assert.notDeepEqual(other, first);
+});
+
+Deno.test(
+  'no model is created unless CULTIVAR_MODEL is set',
+  withCultivarModel(undefined, async () => {
+    assert.equal(createCultivarModel(), null);
+  }),
+);
+
+Deno.test(
+  'CULTIVAR_MODEL=stub selects the stub model',
+  withCultivarModel('stub', async () => {
+    assert.ok(createCultivarModel() instanceof StubCultivarModel);
+  }),
+);
+
+Deno.test(
+  'detection answers 503 when no model is configured',
+  withCultivarModel(undefined, async () => {
+    const form = new FormData();
+    form.append('image', new File([image], 'mango.jpg', { type: 'image/jpeg' }));
+
+    const response = await handler(new Request('http://localhost/detect-cultivar', { method: 'POST', body: form }));
+
+    assert.equal(response.status, 503);
+    assert.deepEqual(await response.json(), { error: 'Cultivar detection is unavailable' });
+  }),
+);
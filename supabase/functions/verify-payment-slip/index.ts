@@ -0,0 +1,111 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createSlipVerifier } from './verifiers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { payment_id: paymentId } = await req.json();
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select(`
+        id,
+        status,
+        amount,
+        slip_path,
+        orders!inner (id, user_id, farm_id, payment_status)
+      `)
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (paymentError) throw paymentError;
+
+    if (!payment || payment.orders.user_id !== user.id) {
+      return jsonResponse({ error: 'Payment not found' }, 404);
+    }
+
+    if (payment.status !== 'pending') {
+      return jsonResponse({ success: true, status: payment.status });
+    }
+
+    const { data: farm } = await supabase
+      .from('farm_profiles')
+      .select('promptpay_id')
+      .eq('user_id', payment.orders.farm_id)
+      .maybeSingle();
+
+    const { data: slip, error: downloadError } = await supabase.storage
+      .from('payment-slips')
+      .download(payment.slip_path);
+
+    if (downloadError) throw downloadError;
+
+    console.log(`Verifying slip for payment ${payment.id}...`);
+
+    const result = await createSlipVerifier().verify({
+      paymentId: payment.id,
+      slip,
+      expectedAmount: Number(payment.amount),
+      receiverPromptPayId: farm?.promptpay_id ?? null,
+    });
+
+    if (result.outcome === 'manual_review') {
+      console.log(`Payment ${payment.id} left for manual review: ${result.reason}`);
+      return jsonResponse({ success: true, status: 'pending', message: result.reason });
+    }
+
+    const verified = result.outcome === 'verified';
+
+    // Payment and order are updated together, and only if nobody decided first
+    const { data: status, error: settleError } = await supabase.rpc('settle_payment_slip', {
+      _payment_id: payment.id,
+      _verified: verified,
+      _reference: verified ? result.reference : null,
+      _reason: verified ? null : result.reason,
+    });
+
+    if (settleError) throw settleError;
+
+    console.log(`Payment ${payment.id} ${status}`);
+
+    if (status === 'rejected') {
+      const { data: rejected } = await supabase
+        .from('payments')
+        .select('rejection_reason')
+        .eq('id', payment.id)
+        .maybeSingle();
+
+      return jsonResponse({ success: true, status, message: rejected?.rejection_reason ?? undefined });
+    }
+
+    return jsonResponse({ success: true, status });
+  } catch (error) {
+    console.error('Error in verify-payment-slip:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
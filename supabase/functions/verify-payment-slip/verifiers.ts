@@ -0,0 +1,116 @@
+export interface SlipVerificationInput {
+  paymentId: string;
+  slip: Blob;
+  expectedAmount: number;
+  receiverPromptPayId: string | null;
+}
+
+export type SlipVerificationResult =
+  | { outcome: 'verified'; reference: string }
+  | { outcome: 'rejected'; reason: string }
+  // The verifier could not decide; the farm reviews the slip by hand
+  | { outcome: 'manual_review'; reason: string };
+
+export interface SlipVerifier {
+  verify(input: SlipVerificationInput): Promise<SlipVerificationResult>;
+}
+
+/**
+ * Default when no verification service is configured: every slip stays
+ * awaiting_verification until the farm checks it against its bank account.
+ */
+export class ManualSlipVerifier implements SlipVerifier {
+  async verify(): Promise<SlipVerificationResult> {
+    return { outcome: 'manual_review', reason: 'Waiting for the farm to check the slip' };
+  }
+}
+
+/**
+ * Offline verifier for local development only, enabled with SLIP_VERIFIER=mock.
+ * Deterministic: an empty upload is rejected, anything else is accepted with a
+ * reference derived from the payment id.
+ */
+export class MockSlipVerifier implements SlipVerifier {
+  async verify({ paymentId, slip }: SlipVerificationInput): Promise<SlipVerificationResult> {
+    if (slip.size === 0) {
+      return { outcome: 'rejected', reason: 'Slip image is empty' };
+    }
+    return { outcome: 'verified', reference: `MOCK-${paymentId.slice(0, 8).toUpperCase()}` };
+  }
+}
+
+// Slip readers report mobile numbers in international form (66812345678)
+function normalizePromptPayId(target: string) {
+  const digits = target.replace(/[^0-9]/g, '');
+  return digits.length === 11 && digits.startsWith('66') ? `0${digits.slice(2)}` : digits;
+}
+
+/**
+ * Sends the slip to a slip-verification API (bank or third-party reader of the
+ * slip's mini QR). The service is expected to answer with
+ * `{ valid, amount?, receiver?, reference?, reason? }`, where `receiver` is the
+ * PromptPay ID the money was sent to.
+ */
+export class HttpSlipVerifier implements SlipVerifier {
+  constructor(private readonly url: string, private readonly apiKey: string) {}
+
+  async verify({ slip, expectedAmount, receiverPromptPayId }: SlipVerificationInput): Promise<SlipVerificationResult> {
+    if (!receiverPromptPayId) {
+      return { outcome: 'manual_review', reason: 'Farm has no PromptPay ID to check the slip against' };
+    }
+
+    const form = new FormData();
+    form.append('file', slip, 'slip');
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      return { outcome: 'manual_review', reason: `Verifier responded with ${response.status}` };
+    }
+
+    const result = await response.json();
+
+    if (!result.valid) {
+      return { outcome: 'rejected', reason: result.reason || 'Slip could not be verified' };
+    }
+
+    if (typeof result.amount === 'number' && Math.abs(result.amount - expectedAmount) > 0.009) {
+      return {
+        outcome: 'rejected',
+        reason: `Slip amount ฿${result.amount} does not match order total ฿${expectedAmount}`,
+      };
+    }
+
+    if (typeof result.receiver !== 'string' || !result.receiver) {
+      return { outcome: 'manual_review', reason: 'Verifier returned no receiver' };
+    }
+
+    if (normalizePromptPayId(result.receiver) !== normalizePromptPayId(receiverPromptPayId)) {
+      return { outcome: 'rejected', reason: 'Slip was paid to a different PromptPay account' };
+    }
+
+    if (!result.reference) {
+      return { outcome: 'manual_review', reason: 'Verifier returned no transaction reference' };
+    }
+
+    return { outcome: 'verified', reference: result.reference };
+  }
+}
+
+export function createSlipVerifier(): SlipVerifier {
+  switch (Deno.env.get('SLIP_VERIFIER')) {
+    case 'http':
+      return new HttpSlipVerifier(
+        Deno.env.get('SLIP_VERIFIER_URL')!,
+        Deno.env.get('SLIP_VERIFIER_API_KEY')!,
+      );
+    case 'mock':
+      return new MockSlipVerifier();
+    default:
+      return new ManualSlipVerifier();
+  }
+}
@@ -0,0 +1,91 @@
+-- Atomic order placement: lock the product row, check stock, create the order
+-- and decrement available_quantity in a single transaction
+CREATE OR REPLACE FUNCTION public.place_order(
+  _product_id UUID,
+  _quantity INTEGER,
+  _delivery_address TEXT,
+  _delivery_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product public.products%ROWTYPE;
+  _order_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1';
+  END IF;
+
+  IF COALESCE(TRIM(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  SELECT * INTO _product
+  FROM public.products
+  WHERE id = _product_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _product.is_active IS NOT TRUE THEN
+    RAISE EXCEPTION 'Product is not available';
+  END IF;
+
+  IF _product.farm_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot order your own product';
+  END IF;
+
+  IF _product.available_quantity < _quantity THEN
+    RAISE EXCEPTION 'Only % % left in stock', _product.available_quantity, _product.unit;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, farm_id, product_id, quantity, total_price,
+    status, delivery_address, delivery_notes
+  )
+  VALUES (
+    auth.uid(), _product.farm_id, _product.id, _quantity,
+    _product.price_per_unit * _quantity,
+    'pending', TRIM(_delivery_address), NULLIF(TRIM(_delivery_notes), '')
+  )
+  RETURNING id INTO _order_id;
+
+  UPDATE public.products
+  SET available_quantity = available_quantity - _quantity
+  WHERE id = _product.id;
+
+  RETURN _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, TEXT, TEXT) TO authenticated;
+
+-- Orders must go through place_order so stock is always reserved
+DROP POLICY IF EXISTS "Users can create orders" ON public.orders;
+
+-- Give stock back whenever an order moves to cancelled, whoever cancels it
+CREATE OR REPLACE FUNCTION public.restore_stock_on_cancel()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE public.products
+    SET available_quantity = available_quantity + OLD.quantity
+    WHERE id = OLD.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restore_stock_on_order_cancel
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.restore_stock_on_cancel();
@@ -0,0 +1,263 @@
+-- Split orders into a per-farm order header and its line items, so one checkout
+-- can buy several products and each farm still confirms its own sub-order
+CREATE TABLE public.order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL,
+  subtotal DECIMAL(10,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(order_id, product_id)
+);
+
+CREATE INDEX idx_order_items_order_id ON public.order_items(order_id);
+CREATE INDEX idx_order_items_product_id ON public.order_items(product_id);
+
+-- Sub-orders created by the same checkout share a checkout_id
+ALTER TABLE public.orders ADD COLUMN checkout_id UUID;
+CREATE INDEX idx_orders_checkout_id ON public.orders(checkout_id);
+
+-- Move existing single-product orders into order_items
+INSERT INTO public.order_items (order_id, product_id, quantity, unit_price, subtotal, created_at)
+SELECT id, product_id, quantity, ROUND(total_price / NULLIF(quantity, 0), 2), total_price, created_at
+FROM public.orders;
+
+UPDATE public.orders SET checkout_id = id WHERE checkout_id IS NULL;
+ALTER TABLE public.orders ALTER COLUMN checkout_id SET NOT NULL;
+
+ALTER TABLE public.orders DROP COLUMN product_id;
+ALTER TABLE public.orders DROP COLUMN quantity;
+
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- Line items are written only by place_checkout
+CREATE POLICY "Order parties can view order items" ON public.order_items FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id AND (auth.uid() = o.user_id OR auth.uid() = o.farm_id)
+  )
+);
+CREATE POLICY "Admins can view all order items" ON public.order_items FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Place a whole cart: lock every product, check stock, create one order per farm
+-- with its line items and decrement stock, all in one transaction.
+-- _items is a JSON array of { "product_id": uuid, "quantity": int }.
+CREATE OR REPLACE FUNCTION public.place_checkout(
+  _items JSONB,
+  _delivery_address TEXT,
+  _delivery_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _checkout_id UUID := gen_random_uuid();
+  _lines JSONB;
+  _line RECORD;
+  _product public.products%ROWTYPE;
+  _farm_id UUID;
+  _order_id UUID;
+  _total DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF COALESCE(TRIM(_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  -- Merge duplicate lines; sorted so concurrent checkouts lock rows in the same order
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity) ORDER BY product_id)
+  INTO _lines
+  FROM (
+    SELECT (e->>'product_id')::UUID AS product_id, SUM((e->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(_items) e
+    GROUP BY 1
+  ) merged;
+
+  FOR _line IN SELECT * FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER) LOOP
+    IF _line.quantity IS NULL OR _line.quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = _line.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR _product.is_active IS NOT TRUE THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    IF _product.farm_id = auth.uid() THEN
+      RAISE EXCEPTION 'You cannot order your own product';
+    END IF;
+
+    IF _product.available_quantity < _line.quantity THEN
+      RAISE EXCEPTION 'Only % % of % left in stock', _product.available_quantity, _product.unit, _product.name;
+    END IF;
+  END LOOP;
+
+  FOR _farm_id IN
+    SELECT DISTINCT p.farm_id
+    FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER)
+    JOIN public.products p ON p.id = l.product_id
+  LOOP
+    SELECT SUM(p.price_per_unit * l.quantity) INTO _total
+    FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER)
+    JOIN public.products p ON p.id = l.product_id
+    WHERE p.farm_id = _farm_id;
+
+    INSERT INTO public.orders (
+      user_id, farm_id, checkout_id, total_price,
+      status, delivery_address, delivery_notes
+    )
+    VALUES (
+      auth.uid(), _farm_id, _checkout_id, _total,
+      'pending', TRIM(_delivery_address), NULLIF(TRIM(_delivery_notes), '')
+    )
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT _order_id, p.id, l.quantity, p.price_per_unit, p.price_per_unit * l.quantity
+    FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER)
+    JOIN public.products p ON p.id = l.product_id
+    WHERE p.farm_id = _farm_id;
+  END LOOP;
+
+  UPDATE public.products p
+  SET available_quantity = p.available_quantity - l.quantity
+  FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER)
+  WHERE p.id = l.product_id;
+
+  RETURN _checkout_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_checkout(JSONB, TEXT, TEXT) TO authenticated;
+
+-- Single-product reservations now go through place_checkout
+DROP FUNCTION IF EXISTS public.place_order(UUID, INTEGER, TEXT, TEXT);
+
+-- Restore stock for every line item of a cancelled order
+CREATE OR REPLACE FUNCTION public.restore_stock_on_cancel()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE public.products p
+    SET available_quantity = p.available_quantity + i.quantity
+    FROM public.order_items i
+    WHERE i.order_id = OLD.id AND p.id = i.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same state machine as before, with the order contents now living in order_items
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor TEXT;
+BEGIN
+  -- Service-role callers (edge functions, cron jobs) have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    _actor := 'system';
+  ELSIF auth.uid() = OLD.farm_id THEN
+    _actor := 'farm';
+  ELSIF auth.uid() = OLD.user_id THEN
+    _actor := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'You are not allowed to update this order';
+  END IF;
+
+  -- Order contents are fixed once placed
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.farm_id IS DISTINCT FROM OLD.farm_id
+    OR NEW.checkout_id IS DISTINCT FROM OLD.checkout_id
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.delivery_address IS DISTINCT FROM OLD.delivery_address
+    OR NEW.delivery_notes IS DISTINCT FROM OLD.delivery_notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Order details cannot be changed after the order is placed';
+  END IF;
+
+  -- Timestamps are owned by this trigger
+  NEW.confirmed_at := OLD.confirmed_at;
+  NEW.shipped_at := OLD.shipped_at;
+  NEW.delivered_at := OLD.delivered_at;
+  NEW.cancelled_at := OLD.cancelled_at;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    -- Without a status change only the farm may correct the tracking number
+    IF NEW.tracking_number IS DISTINCT FROM OLD.tracking_number
+      AND NOT (_actor = 'farm' AND OLD.status IN ('confirmed', 'shipped')) THEN
+      RAISE EXCEPTION 'Tracking number cannot be changed on a % order', OLD.status;
+    END IF;
+
+    IF NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason THEN
+      RAISE EXCEPTION 'Cancellation reason can only be set when cancelling';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (_actor = 'farm' AND OLD.status = 'pending' AND NEW.status = 'confirmed')
+    OR (_actor = 'farm' AND OLD.status = 'confirmed' AND NEW.status = 'shipped')
+    OR (_actor = 'farm' AND OLD.status = 'shipped' AND NEW.status = 'delivered')
+    OR (_actor = 'buyer' AND OLD.status = 'pending' AND NEW.status = 'cancelled')
+    OR (_actor = 'system' AND OLD.status IN ('pending', 'confirmed') AND NEW.status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order from % to % as %', OLD.status, NEW.status, _actor;
+  END IF;
+
+  IF NEW.tracking_number IS DISTINCT FROM OLD.tracking_number AND NEW.status <> 'shipped' THEN
+    RAISE EXCEPTION 'Tracking number can only be set when shipping';
+  END IF;
+
+  IF NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Cancellation reason can only be set when cancelling';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'confirmed' THEN
+      NEW.confirmed_at := NOW();
+    WHEN 'shipped' THEN
+      IF COALESCE(TRIM(NEW.tracking_number), '') = '' THEN
+        RAISE EXCEPTION 'A tracking number is required to ship an order';
+      END IF;
+      NEW.tracking_number := TRIM(NEW.tracking_number);
+      NEW.shipped_at := NOW();
+    WHEN 'delivered' THEN
+      NEW.delivered_at := NOW();
+    WHEN 'cancelled' THEN
+      NEW.cancelled_at := NOW();
+      NEW.cancellation_reason := COALESCE(
+        NULLIF(TRIM(NEW.cancellation_reason), ''),
+        CASE _actor WHEN 'buyer' THEN 'Cancelled by buyer' ELSE 'Cancelled by system' END
+      );
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
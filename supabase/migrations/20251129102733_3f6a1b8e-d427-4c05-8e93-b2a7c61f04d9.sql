@@ -0,0 +1,187 @@
+-- Payments: PromptPay transfers confirmed by an uploaded slip
+CREATE TYPE public.payment_status AS ENUM ('unpaid', 'awaiting_verification', 'paid', 'refunded');
+CREATE TYPE public.payment_slip_status AS ENUM ('pending', 'verified', 'rejected');
+
+ALTER TABLE public.orders
+  ADD COLUMN payment_status payment_status NOT NULL DEFAULT 'unpaid',
+  ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+-- Where buyers send money for this farm's orders (mobile number, national ID or e-wallet ID)
+ALTER TABLE public.farm_profiles ADD COLUMN promptpay_id TEXT;
+
+-- One row per uploaded transfer slip
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL,
+  slip_path TEXT NOT NULL,
+  status payment_slip_status NOT NULL DEFAULT 'pending',
+  verification_ref TEXT,
+  rejection_reason TEXT,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments are written only by the functions below and the verify-payment-slip edge function
+CREATE POLICY "Order parties can view payments" ON public.payments FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id AND (auth.uid() = o.user_id OR auth.uid() = o.farm_id)
+  )
+);
+CREATE POLICY "Admins can view all payments" ON public.payments FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Private bucket for slips, one folder per buyer
+INSERT INTO storage.buckets (id, name, public) VALUES ('payment-slips', 'payment-slips', false);
+
+CREATE POLICY "Buyers can upload own payment slips" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'payment-slips' AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
+CREATE POLICY "Order parties can view payment slips" ON storage.objects FOR SELECT USING (
+  bucket_id = 'payment-slips' AND EXISTS (
+    SELECT 1 FROM public.payments p
+    JOIN public.orders o ON o.id = p.order_id
+    WHERE p.slip_path = name AND (auth.uid() = o.user_id OR auth.uid() = o.farm_id)
+  )
+);
+
+-- Payment state can only change through the payment functions or the service role,
+-- and farms can only ship orders that have been paid
+CREATE OR REPLACE FUNCTION public.enforce_payment_rules()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.payment_status IS DISTINCT FROM OLD.payment_status OR NEW.paid_at IS DISTINCT FROM OLD.paid_at)
+    AND auth.uid() IS NOT NULL
+    AND current_setting('app.payment_update', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Payment status cannot be changed directly';
+  END IF;
+
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid' THEN
+    NEW.paid_at := NOW();
+  END IF;
+
+  IF NEW.status = 'shipped' AND OLD.status IS DISTINCT FROM 'shipped' AND NEW.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be shipped';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_payment_rules
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_payment_rules();
+
+-- Buyer submits an uploaded slip for an unpaid order
+CREATE OR REPLACE FUNCTION public.submit_payment_slip(_order_id UUID, _slip_path TEXT)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _payment_id UUID;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This order has been cancelled';
+  END IF;
+
+  IF _order.payment_status <> 'unpaid' THEN
+    RAISE EXCEPTION 'This order is already %', REPLACE(_order.payment_status::TEXT, '_', ' ');
+  END IF;
+
+  IF split_part(_slip_path, '/', 1) <> auth.uid()::TEXT THEN
+    RAISE EXCEPTION 'Invalid slip upload';
+  END IF;
+
+  INSERT INTO public.payments (order_id, user_id, amount, slip_path)
+  VALUES (_order.id, _order.user_id, _order.total_price, _slip_path)
+  RETURNING id INTO _payment_id;
+
+  PERFORM set_config('app.payment_update', 'on', true);
+  UPDATE public.orders SET payment_status = 'awaiting_verification' WHERE id = _order.id;
+
+  RETURN _payment_id;
+END;
+$$;
+
+-- Farm checks a slip by hand when automatic verification could not decide
+CREATE OR REPLACE FUNCTION public.review_payment_slip(_payment_id UUID, _approve BOOLEAN, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+  SELECT * INTO _order FROM public.orders WHERE id = _payment.order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.farm_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF _payment.status <> 'pending' OR _order.payment_status <> 'awaiting_verification' THEN
+    RAISE EXCEPTION 'This payment has already been reviewed';
+  END IF;
+
+  PERFORM set_config('app.payment_update', 'on', true);
+
+  IF _approve THEN
+    UPDATE public.payments SET status = 'verified', verified_at = NOW() WHERE id = _payment.id;
+    UPDATE public.orders SET payment_status = 'paid' WHERE id = _order.id;
+  ELSE
+    UPDATE public.payments
+    SET status = 'rejected', rejection_reason = COALESCE(NULLIF(TRIM(_reason), ''), 'Slip rejected by farm')
+    WHERE id = _payment.id;
+    UPDATE public.orders SET payment_status = 'unpaid' WHERE id = _order.id;
+  END IF;
+END;
+$$;
+
+-- Farm records that the money for a cancelled order has been returned
+CREATE OR REPLACE FUNCTION public.refund_order_payment(_order_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.farm_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'cancelled' OR _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders that were cancelled can be refunded';
+  END IF;
+
+  PERFORM set_config('app.payment_update', 'on', true);
+  UPDATE public.orders SET payment_status = 'refunded' WHERE id = _order.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_payment_slip(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_payment_slip(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_order_payment(UUID) TO authenticated;
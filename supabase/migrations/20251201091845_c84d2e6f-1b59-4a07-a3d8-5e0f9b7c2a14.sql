@@ -0,0 +1,182 @@
+-- Reviews go through submit_review so the order, farm and buyer always match
+DROP POLICY IF EXISTS "Users can create reviews for own orders" ON public.reviews;
+
+-- Buyers may move a delivered order to reviewed once its review exists
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor TEXT;
+BEGIN
+  -- Service-role callers (edge functions, cron jobs) have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    _actor := 'system';
+  ELSIF auth.uid() = OLD.farm_id THEN
+    _actor := 'farm';
+  ELSIF auth.uid() = OLD.user_id THEN
+    _actor := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'You are not allowed to update this order';
+  END IF;
+
+  -- Order contents are fixed once placed
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.farm_id IS DISTINCT FROM OLD.farm_id
+    OR NEW.checkout_id IS DISTINCT FROM OLD.checkout_id
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.delivery_address IS DISTINCT FROM OLD.delivery_address
+    OR NEW.delivery_notes IS DISTINCT FROM OLD.delivery_notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Order details cannot be changed after the order is placed';
+  END IF;
+
+  -- Timestamps are owned by this trigger
+  NEW.confirmed_at := OLD.confirmed_at;
+  NEW.shipped_at := OLD.shipped_at;
+  NEW.delivered_at := OLD.delivered_at;
+  NEW.cancelled_at := OLD.cancelled_at;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    -- Without a status change only the farm may correct the tracking number
+    IF NEW.tracking_number IS DISTINCT FROM OLD.tracking_number
+      AND NOT (_actor = 'farm' AND OLD.status IN ('confirmed', 'shipped')) THEN
+      RAISE EXCEPTION 'Tracking number cannot be changed on a % order', OLD.status;
+    END IF;
+
+    IF NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason THEN
+      RAISE EXCEPTION 'Cancellation reason can only be set when cancelling';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (_actor = 'farm' AND OLD.status = 'pending' AND NEW.status = 'confirmed')
+    OR (_actor = 'farm' AND OLD.status = 'confirmed' AND NEW.status = 'shipped')
+    OR (_actor = 'farm' AND OLD.status = 'shipped' AND NEW.status = 'delivered')
+    OR (_actor = 'buyer' AND OLD.status = 'pending' AND NEW.status = 'cancelled')
+    OR (_actor = 'buyer' AND OLD.status = 'delivered' AND NEW.status = 'reviewed'
+        AND EXISTS (SELECT 1 FROM public.reviews WHERE order_id = OLD.id))
+    OR (_actor = 'system' AND OLD.status IN ('pending', 'confirmed') AND NEW.status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order from % to % as %', OLD.status, NEW.status, _actor;
+  END IF;
+
+  IF NEW.tracking_number IS DISTINCT FROM OLD.tracking_number AND NEW.status <> 'shipped' THEN
+    RAISE EXCEPTION 'Tracking number can only be set when shipping';
+  END IF;
+
+  IF NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Cancellation reason can only be set when cancelling';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'confirmed' THEN
+      NEW.confirmed_at := NOW();
+    WHEN 'shipped' THEN
+      IF COALESCE(TRIM(NEW.tracking_number), '') = '' THEN
+        RAISE EXCEPTION 'A tracking number is required to ship an order';
+      END IF;
+      NEW.tracking_number := TRIM(NEW.tracking_number);
+      NEW.shipped_at := NOW();
+    WHEN 'delivered' THEN
+      NEW.delivered_at := NOW();
+    WHEN 'cancelled' THEN
+      NEW.cancelled_at := NOW();
+      NEW.cancellation_reason := COALESCE(
+        NULLIF(TRIM(NEW.cancellation_reason), ''),
+        CASE _actor WHEN 'buyer' THEN 'Cancelled by buyer' ELSE 'Cancelled by system' END
+      );
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_review(_order_id UUID, _rating INTEGER, _comment TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _review_id UUID;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Only delivered orders can be reviewed';
+  END IF;
+
+  IF _rating IS NULL OR _rating < 1 OR _rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  INSERT INTO public.reviews (order_id, user_id, farm_id, rating, comment)
+  VALUES (_order.id, _order.user_id, _order.farm_id, _rating, NULLIF(TRIM(_comment), ''))
+  RETURNING id INTO _review_id;
+
+  UPDATE public.orders SET status = 'reviewed' WHERE id = _order.id;
+
+  RETURN _review_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT) TO authenticated;
+
+-- Keep farm_profiles.rating / total_reviews in step with the reviews table
+CREATE OR REPLACE FUNCTION public.refresh_farm_rating(_farm_user_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.farm_profiles fp
+  SET rating = COALESCE(stats.avg_rating, 0),
+      total_reviews = COALESCE(stats.review_count, 0)
+  FROM (
+    SELECT ROUND(AVG(rating)::NUMERIC, 1) AS avg_rating, COUNT(*)::INTEGER AS review_count
+    FROM public.reviews
+    WHERE farm_id = _farm_user_id
+  ) stats
+  WHERE fp.user_id = _farm_user_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_farm_rating(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_farm_rating()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_farm_rating(OLD.farm_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.farm_id IS DISTINCT FROM OLD.farm_id) THEN
+    PERFORM public.refresh_farm_rating(NEW.farm_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_farm_rating_on_review
+  AFTER INSERT OR UPDATE OR DELETE ON public.reviews
+  FOR EACH ROW EXECUTE FUNCTION public.update_farm_rating();
+
+-- Backfill aggregates for reviews that already exist
+SELECT public.refresh_farm_rating(user_id) FROM public.farm_profiles;
@@ -0,0 +1,5 @@
+-- Stream notification changes to the in-app inbox
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+CREATE INDEX idx_notifications_user_id_created_at ON public.notifications(user_id, created_at DESC);
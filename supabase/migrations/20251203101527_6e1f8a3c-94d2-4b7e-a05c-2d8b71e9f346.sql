@@ -0,0 +1,134 @@
+-- Farm upgrade requests are reviewed through review_farm_upgrade_request
+ALTER TABLE public.farm_upgrade_requests
+  ADD COLUMN rejection_reason TEXT,
+  ADD CONSTRAINT farm_upgrade_requests_status_check CHECK (status IN ('pending', 'approved', 'rejected'));
+
+-- One open request per applicant
+CREATE UNIQUE INDEX idx_farm_upgrade_requests_one_pending
+  ON public.farm_upgrade_requests(user_id) WHERE status = 'pending';
+
+-- Admin approves or rejects an application. Approval grants the farm role,
+-- creates the farm profile and notifies the applicant in one transaction.
+CREATE OR REPLACE FUNCTION public.review_farm_upgrade_request(_request_id UUID, _approve BOOLEAN, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.farm_upgrade_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review farm requests';
+  END IF;
+
+  SELECT * INTO _request FROM public.farm_upgrade_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', _request.status;
+  END IF;
+
+  IF _approve THEN
+    UPDATE public.farm_upgrade_requests
+    SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = NOW()
+    WHERE id = _request.id;
+
+    PERFORM set_config('app.farm_status_update', 'on', true);
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_request.user_id, 'farm')
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    INSERT INTO public.farm_profiles (user_id, farm_name, farm_location, farm_description, verified)
+    VALUES (_request.user_id, _request.farm_name, _request.farm_location, _request.description, TRUE)
+    ON CONFLICT (user_id) DO UPDATE
+    SET farm_name = EXCLUDED.farm_name,
+        farm_location = EXCLUDED.farm_location,
+        farm_description = EXCLUDED.farm_description,
+        verified = TRUE;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _request.user_id,
+      'Farm application approved',
+      'Your farm "' || _request.farm_name || '" is now active. You can start listing products.',
+      'farm_request_approved'
+    );
+  ELSE
+    UPDATE public.farm_upgrade_requests
+    SET status = 'rejected',
+        rejection_reason = COALESCE(NULLIF(TRIM(_reason), ''), 'Application rejected by admin'),
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE id = _request.id
+    RETURNING * INTO _request;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _request.user_id,
+      'Farm application rejected',
+      'Your application for "' || _request.farm_name || '" was rejected: ' || _request.rejection_reason,
+      'farm_request_rejected'
+    );
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_farm_upgrade_request(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Farm profiles are only created by approving an application, never by the user themselves
+DROP POLICY "Farm users can insert own farm" ON public.farm_profiles;
+
+-- A farm edits its own profile but not its verification or rating. Those change through
+-- review_farm_upgrade_request and refresh_farm_rating, the admin console, or the service role.
+CREATE OR REPLACE FUNCTION public.protect_farm_profile_status()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.farm_status_update', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verified IS DISTINCT FROM OLD.verified AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Farm verification can only be changed by an admin';
+  END IF;
+
+  IF NEW.rating IS DISTINCT FROM OLD.rating OR NEW.total_reviews IS DISTINCT FROM OLD.total_reviews THEN
+    RAISE EXCEPTION 'Farm ratings are calculated from reviews';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_farm_profile_status
+  BEFORE UPDATE ON public.farm_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_farm_profile_status();
+
+CREATE OR REPLACE FUNCTION public.refresh_farm_rating(_farm_user_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT set_config('app.farm_status_update', 'on', true);
+
+  UPDATE public.farm_profiles fp
+  SET rating = COALESCE(stats.avg_rating, 0),
+      total_reviews = COALESCE(stats.review_count, 0)
+  FROM (
+    SELECT ROUND(AVG(rating)::NUMERIC, 1) AS avg_rating, COUNT(*)::INTEGER AS review_count
+    FROM public.reviews
+    WHERE farm_id = _farm_user_id
+  ) stats
+  WHERE fp.user_id = _farm_user_id;
+
+  SELECT set_config('app.farm_status_update', 'off', true);
+$$;
@@ -0,0 +1,25 @@
+-- Supporting photos for farm applications
+ALTER TABLE public.farm_upgrade_requests ADD COLUMN photo_paths TEXT[] NOT NULL DEFAULT '{}';
+
+-- Applicants can only submit fresh, unreviewed requests
+DROP POLICY IF EXISTS "Users can create requests" ON public.farm_upgrade_requests;
+CREATE POLICY "Users can create requests" ON public.farm_upgrade_requests FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+  AND reviewed_at IS NULL
+  AND rejection_reason IS NULL
+);
+
+-- Private bucket for application photos, one folder per applicant
+INSERT INTO storage.buckets (id, name, public) VALUES ('farm-applications', 'farm-applications', false);
+
+CREATE POLICY "Applicants can upload own application photos" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'farm-applications' AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
+CREATE POLICY "Applicants and admins can view application photos" ON storage.objects FOR SELECT USING (
+  bucket_id = 'farm-applications' AND (
+    auth.uid()::TEXT = (storage.foldername(name))[1]
+    OR public.has_role(auth.uid(), 'admin')
+  )
+);
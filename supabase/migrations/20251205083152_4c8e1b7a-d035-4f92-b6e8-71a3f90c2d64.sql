@@ -0,0 +1,65 @@
+-- Ripeness stages, from unripe to past eating quality
+CREATE TYPE public.ripeness_stage AS ENUM ('green', 'turning', 'ripe', 'fully_ripe', 'overripe');
+
+-- One row per image a signed-in user runs through detect-cultivar
+CREATE TABLE public.detection_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  image_path TEXT NOT NULL,
+  cultivar_id UUID REFERENCES public.cultivars(id) ON DELETE SET NULL,
+  confidence DECIMAL(4,3) NOT NULL,
+  ripeness_stage ripeness_stage NOT NULL,
+  defects TEXT[] NOT NULL DEFAULT '{}',
+  quality TEXT NOT NULL,
+  model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_detection_runs_user_id_created_at ON public.detection_runs(user_id, created_at DESC);
+
+-- Farms attach a detection to a listing as evidence of cultivar and grade
+ALTER TABLE public.products
+  ADD COLUMN detection_run_id UUID REFERENCES public.detection_runs(id) ON DELETE SET NULL;
+
+ALTER TABLE public.detection_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are written by the edge function with the service role
+CREATE POLICY "Users can view own detection runs" ON public.detection_runs FOR SELECT USING (auth.uid() = user_id);
+-- model is "<cultivar model>+<grading model>"; runs from the development stubs are never evidence
+CREATE POLICY "Anyone can view detection runs attached to active products" ON public.detection_runs FOR SELECT USING (
+  NOT 'stub' = ANY(string_to_array(model, '+'))
+  AND EXISTS (SELECT 1 FROM public.products WHERE detection_run_id = detection_runs.id AND is_active = true)
+);
+CREATE POLICY "Users can delete own detection runs" ON public.detection_runs FOR DELETE USING (auth.uid() = user_id);
+
+-- A farm can only attach its own detections, and only ones from a real model
+CREATE OR REPLACE FUNCTION public.check_product_detection_owner()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.detection_run_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.detection_runs
+    WHERE id = NEW.detection_run_id
+      AND user_id = NEW.farm_id
+      AND NOT 'stub' = ANY(string_to_array(model, '+'))
+  ) THEN
+    RAISE EXCEPTION 'Detection not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_product_detection_owner
+  BEFORE INSERT OR UPDATE OF detection_run_id ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.check_product_detection_owner();
+
+-- Private bucket for detection images, one folder per user
+INSERT INTO storage.buckets (id, name, public) VALUES ('detection-images', 'detection-images', false);
+
+CREATE POLICY "Users can view own detection images" ON storage.objects FOR SELECT USING (
+  bucket_id = 'detection-images' AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
@@ -0,0 +1,57 @@
+-- A farm is identified everywhere by its owner's auth user id (farm_profiles.user_id).
+-- products.farm_id, orders.farm_id and reviews.farm_id all hold that id.
+
+ALTER TABLE public.products DROP CONSTRAINT products_farm_id_fkey;
+ALTER TABLE public.orders DROP CONSTRAINT orders_farm_id_fkey;
+ALTER TABLE public.reviews DROP CONSTRAINT reviews_farm_id_fkey;
+
+-- Remap any rows that were written with a farm_profiles.id instead of the owner's id.
+-- Order triggers would reject the farm_id change, so they are paused for the fix-up.
+UPDATE public.products p
+SET farm_id = fp.user_id
+FROM public.farm_profiles fp
+WHERE p.farm_id = fp.id;
+
+ALTER TABLE public.orders DISABLE TRIGGER enforce_order_transition;
+ALTER TABLE public.orders DISABLE TRIGGER enforce_payment_rules;
+
+UPDATE public.orders o
+SET farm_id = fp.user_id
+FROM public.farm_profiles fp
+WHERE o.farm_id = fp.id;
+
+ALTER TABLE public.orders ENABLE TRIGGER enforce_order_transition;
+ALTER TABLE public.orders ENABLE TRIGGER enforce_payment_rules;
+
+UPDATE public.reviews r
+SET farm_id = fp.user_id
+FROM public.farm_profiles fp
+WHERE r.farm_id = fp.id;
+
+-- Sellers that never got a farm profile get an unverified placeholder so the
+-- new foreign keys hold; an admin can complete and verify them later
+INSERT INTO public.farm_profiles (user_id, farm_name, farm_location, verified)
+SELECT owners.farm_id, COALESCE(pr.full_name, 'Farm'), 'Unknown', FALSE
+FROM (
+  SELECT farm_id FROM public.products
+  UNION SELECT farm_id FROM public.orders
+  UNION SELECT farm_id FROM public.reviews
+) owners
+LEFT JOIN public.profiles pr ON pr.id = owners.farm_id
+WHERE NOT EXISTS (SELECT 1 FROM public.farm_profiles fp WHERE fp.user_id = owners.farm_id);
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'farm' FROM public.farm_profiles
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Farm-owned rows point at the farm profile; deleting the owner still cascades
+-- through auth.users -> farm_profiles
+ALTER TABLE public.products ADD CONSTRAINT products_farm_id_fkey
+  FOREIGN KEY (farm_id) REFERENCES public.farm_profiles(user_id) ON DELETE CASCADE;
+ALTER TABLE public.orders ADD CONSTRAINT orders_farm_id_fkey
+  FOREIGN KEY (farm_id) REFERENCES public.farm_profiles(user_id) ON DELETE CASCADE;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_farm_id_fkey
+  FOREIGN KEY (farm_id) REFERENCES public.farm_profiles(user_id) ON DELETE CASCADE;
+
+CREATE INDEX idx_products_farm_id ON public.products(farm_id);
+CREATE INDEX idx_orders_farm_id ON public.orders(farm_id);
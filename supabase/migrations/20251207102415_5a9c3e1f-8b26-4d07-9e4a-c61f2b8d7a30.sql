@@ -0,0 +1,63 @@
+-- Orders that are still in progress for one of the caller's products
+CREATE OR REPLACE FUNCTION public.product_open_order_count(_product_id UUID)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(DISTINCT o.id)::INTEGER
+  FROM public.order_items i
+  JOIN public.orders o ON o.id = i.order_id
+  WHERE i.product_id = _product_id
+    AND o.farm_id = auth.uid()
+    AND o.status IN ('pending', 'confirmed', 'shipped')
+$$;
+
+GRANT EXECUTE ON FUNCTION public.product_open_order_count(UUID) TO authenticated;
+
+-- Farms cannot reprice or restock a listing while buyers are waiting on it.
+-- Checkout runs as the buyer, and cancellation sets app.stock_update to pass.
+CREATE OR REPLACE FUNCTION public.lock_product_terms()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.price_per_unit IS DISTINCT FROM OLD.price_per_unit
+      OR NEW.available_quantity IS DISTINCT FROM OLD.available_quantity)
+    AND auth.uid() = OLD.farm_id
+    AND current_setting('app.stock_update', true) IS DISTINCT FROM 'on'
+    AND public.product_open_order_count(OLD.id) > 0 THEN
+    RAISE EXCEPTION 'Price and quantity cannot be changed while this product has open orders';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_product_terms
+  BEFORE UPDATE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.lock_product_terms();
+
+-- A farm cancelling its own order puts the stock back through the same path
+CREATE OR REPLACE FUNCTION public.restore_stock_on_cancel()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM set_config('app.stock_update', 'on', true);
+
+    UPDATE public.products p
+    SET available_quantity = p.available_quantity + i.quantity
+    FROM public.order_items i
+    WHERE i.order_id = OLD.id AND p.id = i.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
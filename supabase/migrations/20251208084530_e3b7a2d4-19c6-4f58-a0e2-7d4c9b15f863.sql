@@ -0,0 +1,24 @@
+-- Products can carry several photos; image_url stays the cover photo
+ALTER TABLE public.products ADD COLUMN image_urls TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.products
+SET image_urls = ARRAY[image_url]
+WHERE image_url IS NOT NULL AND image_url <> '';
+
+-- Public buckets for listing photos and profile pictures, one folder per user.
+-- Images are resized and re-encoded as JPEG in the browser before upload.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types) VALUES
+  ('product-images', 'product-images', true, 5242880, ARRAY['image/jpeg']),
+  ('profile-images', 'profile-images', true, 5242880, ARRAY['image/jpeg']);
+
+CREATE POLICY "Anyone can view uploaded images" ON storage.objects FOR SELECT USING (
+  bucket_id IN ('product-images', 'profile-images')
+);
+CREATE POLICY "Users can upload own images" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id IN ('product-images', 'profile-images')
+  AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
+CREATE POLICY "Users can delete own images" ON storage.objects FOR DELETE USING (
+  bucket_id IN ('product-images', 'profile-images')
+  AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
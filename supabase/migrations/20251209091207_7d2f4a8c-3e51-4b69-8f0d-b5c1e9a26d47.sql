@@ -0,0 +1,2 @@
+-- Marketplace and cultivar pages filter live listings by cultivar
+CREATE INDEX idx_products_cultivar_id ON public.products(cultivar_id) WHERE is_active = TRUE;
@@ -0,0 +1,168 @@
+-- Server-side marketplace search. Thai is written without spaces between words,
+-- so matching uses trigram-indexed substring search rather than a tsvector.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.products ADD COLUMN search_text TEXT
+  GENERATED ALWAYS AS (LOWER(name || ' ' || COALESCE(description, ''))) STORED;
+
+CREATE INDEX idx_products_search_text ON public.products
+  USING GIN (search_text extensions.gin_trgm_ops);
+CREATE INDEX idx_farm_profiles_farm_name ON public.farm_profiles
+  USING GIN (LOWER(farm_name) extensions.gin_trgm_ops);
+CREATE INDEX idx_products_harvest_date ON public.products(harvest_date) WHERE is_active = TRUE;
+
+-- Active listings matching the search filters. Runs as the caller, so farm
+-- columns are NULL for unverified farms the caller cannot see.
+-- Every word of _query must appear in the product, farm or cultivar names.
+CREATE OR REPLACE FUNCTION public.search_products_base(
+  _query TEXT,
+  _product_type public.product_type,
+  _cultivar_id UUID,
+  _min_price NUMERIC,
+  _max_price NUMERIC,
+  _harvest_from DATE,
+  _harvest_to DATE,
+  _verified_only BOOLEAN,
+  _in_stock BOOLEAN
+)
+RETURNS TABLE (
+  id UUID,
+  farm_id UUID,
+  cultivar_id UUID,
+  name TEXT,
+  description TEXT,
+  product_type public.product_type,
+  price_per_unit NUMERIC,
+  available_quantity INTEGER,
+  unit TEXT,
+  harvest_date DATE,
+  image_url TEXT,
+  farm_name TEXT,
+  farm_location TEXT,
+  farm_rating NUMERIC,
+  farm_verified BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id, p.farm_id, p.cultivar_id, p.name, p.description, p.product_type,
+    p.price_per_unit, p.available_quantity, p.unit, p.harvest_date, p.image_url,
+    fp.farm_name, fp.farm_location, fp.rating, COALESCE(fp.verified, FALSE)
+  FROM public.products p
+  LEFT JOIN public.farm_profiles fp ON fp.user_id = p.farm_id
+  LEFT JOIN public.cultivars c ON c.id = p.cultivar_id
+  WHERE p.is_active = TRUE
+    AND (_product_type IS NULL OR p.product_type = _product_type)
+    AND (_cultivar_id IS NULL OR p.cultivar_id = _cultivar_id)
+    AND (_min_price IS NULL OR p.price_per_unit >= _min_price)
+    AND (_max_price IS NULL OR p.price_per_unit <= _max_price)
+    AND (_harvest_from IS NULL OR p.harvest_date >= _harvest_from)
+    AND (_harvest_to IS NULL OR p.harvest_date <= _harvest_to)
+    AND (NOT COALESCE(_verified_only, FALSE) OR fp.verified = TRUE)
+    AND (NOT COALESCE(_in_stock, FALSE) OR p.available_quantity > 0)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM (
+        -- Treat LIKE wildcards typed by the user as literal characters
+        SELECT REPLACE(REPLACE(REPLACE(raw, '\', '\\'), '%', '\%'), '_', '\_') AS word
+        FROM regexp_split_to_table(LOWER(BTRIM(COALESCE(_query, ''))), '\s+') AS t(raw)
+        WHERE raw <> ''
+      ) w
+      WHERE NOT (
+        p.search_text LIKE '%' || w.word || '%'
+        OR LOWER(COALESCE(fp.farm_name, '')) LIKE '%' || w.word || '%'
+        OR LOWER(COALESCE(c.name, '')) LIKE '%' || w.word || '%'
+        OR COALESCE(c.thai_name, '') LIKE '%' || w.word || '%'
+      )
+    )
+$$;
+
+-- One page of search results. Every sort is expressed as an ascending numeric
+-- sort_key so the next page starts after the last row's (sort_key, id).
+--   fresh: newest harvest first, price_asc / price_desc, rating: best farm first
+CREATE OR REPLACE FUNCTION public.search_products(
+  _query TEXT DEFAULT NULL,
+  _product_type public.product_type DEFAULT NULL,
+  _cultivar_id UUID DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _harvest_from DATE DEFAULT NULL,
+  _harvest_to DATE DEFAULT NULL,
+  _verified_only BOOLEAN DEFAULT FALSE,
+  _in_stock BOOLEAN DEFAULT FALSE,
+  _sort TEXT DEFAULT 'fresh',
+  _cursor_key NUMERIC DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  id UUID,
+  farm_id UUID,
+  cultivar_id UUID,
+  name TEXT,
+  description TEXT,
+  product_type public.product_type,
+  price_per_unit NUMERIC,
+  available_quantity INTEGER,
+  unit TEXT,
+  harvest_date DATE,
+  image_url TEXT,
+  farm_name TEXT,
+  farm_location TEXT,
+  farm_rating NUMERIC,
+  farm_verified BOOLEAN,
+  sort_key NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT b.*,
+      CASE _sort
+        WHEN 'price_asc' THEN b.price_per_unit
+        WHEN 'price_desc' THEN -b.price_per_unit
+        WHEN 'rating' THEN -COALESCE(b.farm_rating, 0)
+        ELSE -(b.harvest_date - DATE '2000-01-01')::NUMERIC
+      END AS sort_key
+    FROM public.search_products_base(
+      _query, _product_type, _cultivar_id, _min_price, _max_price,
+      _harvest_from, _harvest_to, _verified_only, _in_stock
+    ) b
+  ) ranked
+  WHERE _cursor_id IS NULL OR (ranked.sort_key, ranked.id) > (_cursor_key, _cursor_id)
+  ORDER BY ranked.sort_key, ranked.id
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 24), 1), 100)
+$$;
+
+-- Listing counts per cultivar for the same filters, ignoring the cultivar filter
+CREATE OR REPLACE FUNCTION public.search_product_cultivar_counts(
+  _query TEXT DEFAULT NULL,
+  _product_type public.product_type DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _harvest_from DATE DEFAULT NULL,
+  _harvest_to DATE DEFAULT NULL,
+  _verified_only BOOLEAN DEFAULT FALSE,
+  _in_stock BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (cultivar_id UUID, product_count INTEGER)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.cultivar_id, COUNT(*)::INTEGER
+  FROM public.search_products_base(
+    _query, _product_type, NULL, _min_price, _max_price,
+    _harvest_from, _harvest_to, _verified_only, _in_stock
+  ) b
+  WHERE b.cultivar_id IS NOT NULL
+  GROUP BY b.cultivar_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products_base(TEXT, public.product_type, UUID, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, public.product_type, UUID, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN, TEXT, NUMERIC, UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_product_cultivar_counts(TEXT, public.product_type, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN) TO anon, authenticated;
@@ -0,0 +1,244 @@
+-- Structured Thai addresses with coordinates for farms and buyers. Coordinates
+-- come from the client-side geocoder (see src/lib/geocoding.ts) or the device.
+ALTER TABLE public.farm_profiles
+  ADD COLUMN subdistrict TEXT,
+  ADD COLUMN district TEXT,
+  ADD COLUMN province_code TEXT CHECK (province_code ~ '^[1-9][0-9]$'),
+  ADD COLUMN postcode TEXT CHECK (postcode ~ '^[1-9][0-9]{4}$'),
+  ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT farm_profiles_coordinates_check CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+ALTER TABLE public.profiles
+  ADD COLUMN subdistrict TEXT,
+  ADD COLUMN district TEXT,
+  ADD COLUMN province_code TEXT CHECK (province_code ~ '^[1-9][0-9]$'),
+  ADD COLUMN postcode TEXT CHECK (postcode ~ '^[1-9][0-9]{4}$');
+
+-- Anyone can read profiles, so a buyer's home coordinates live in their own owner-only table
+CREATE TABLE public.profile_locations (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.profile_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own location" ON public.profile_locations FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own location" ON public.profile_locations FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own location" ON public.profile_locations FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own location" ON public.profile_locations FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_profile_locations_updated_at BEFORE UPDATE ON public.profile_locations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_farm_profiles_province_code ON public.farm_profiles(province_code);
+
+-- Great-circle distance in kilometres (haversine)
+CREATE OR REPLACE FUNCTION public.distance_km(
+  _lat1 DOUBLE PRECISION,
+  _lng1 DOUBLE PRECISION,
+  _lat2 DOUBLE PRECISION,
+  _lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371 * ASIN(SQRT(
+    POWER(SIN(RADIANS(_lat2 - _lat1) / 2), 2)
+    + COS(RADIANS(_lat1)) * COS(RADIANS(_lat2)) * POWER(SIN(RADIANS(_lng2 - _lng1) / 2), 2)
+  ))
+$$;
+
+-- The search functions gain an origin point, so they are recreated with new signatures
+DROP FUNCTION public.search_product_cultivar_counts(TEXT, public.product_type, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN);
+DROP FUNCTION public.search_products(TEXT, public.product_type, UUID, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN, TEXT, NUMERIC, UUID, INTEGER);
+DROP FUNCTION public.search_products_base(TEXT, public.product_type, UUID, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN);
+
+-- Active listings matching the search filters. Runs as the caller, so farm
+-- columns are NULL for unverified farms the caller cannot see.
+-- Every word of _query must appear in the product, farm or cultivar names.
+-- distance_km is measured from the origin when one is given; farms without
+-- coordinates have no distance and are left out when _max_distance_km is set.
+CREATE OR REPLACE FUNCTION public.search_products_base(
+  _query TEXT,
+  _product_type public.product_type,
+  _cultivar_id UUID,
+  _min_price NUMERIC,
+  _max_price NUMERIC,
+  _harvest_from DATE,
+  _harvest_to DATE,
+  _verified_only BOOLEAN,
+  _in_stock BOOLEAN,
+  _origin_lat DOUBLE PRECISION,
+  _origin_lng DOUBLE PRECISION,
+  _max_distance_km NUMERIC
+)
+RETURNS TABLE (
+  id UUID,
+  farm_id UUID,
+  cultivar_id UUID,
+  name TEXT,
+  description TEXT,
+  product_type public.product_type,
+  price_per_unit NUMERIC,
+  available_quantity INTEGER,
+  unit TEXT,
+  harvest_date DATE,
+  image_url TEXT,
+  farm_name TEXT,
+  farm_location TEXT,
+  farm_rating NUMERIC,
+  farm_verified BOOLEAN,
+  farm_latitude DOUBLE PRECISION,
+  farm_longitude DOUBLE PRECISION,
+  distance_km NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id, p.farm_id, p.cultivar_id, p.name, p.description, p.product_type,
+    p.price_per_unit, p.available_quantity, p.unit, p.harvest_date, p.image_url,
+    fp.farm_name, fp.farm_location, fp.rating, COALESCE(fp.verified, FALSE),
+    fp.latitude, fp.longitude, ROUND(d.km::NUMERIC, 1)
+  FROM public.products p
+  LEFT JOIN public.farm_profiles fp ON fp.user_id = p.farm_id
+  LEFT JOIN public.cultivars c ON c.id = p.cultivar_id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN _origin_lat IS NOT NULL AND _origin_lng IS NOT NULL AND fp.latitude IS NOT NULL
+        THEN public.distance_km(_origin_lat, _origin_lng, fp.latitude, fp.longitude)
+    END AS km
+  ) d
+  WHERE p.is_active = TRUE
+    AND (_product_type IS NULL OR p.product_type = _product_type)
+    AND (_cultivar_id IS NULL OR p.cultivar_id = _cultivar_id)
+    AND (_min_price IS NULL OR p.price_per_unit >= _min_price)
+    AND (_max_price IS NULL OR p.price_per_unit <= _max_price)
+    AND (_harvest_from IS NULL OR p.harvest_date >= _harvest_from)
+    AND (_harvest_to IS NULL OR p.harvest_date <= _harvest_to)
+    AND (NOT COALESCE(_verified_only, FALSE) OR fp.verified = TRUE)
+    AND (NOT COALESCE(_in_stock, FALSE) OR p.available_quantity > 0)
+    AND (_max_distance_km IS NULL OR d.km <= _max_distance_km)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM (
+        -- Treat LIKE wildcards typed by the user as literal characters
+        SELECT REPLACE(REPLACE(REPLACE(raw, '\', '\\'), '%', '\%'), '_', '\_') AS word
+        FROM regexp_split_to_table(LOWER(BTRIM(COALESCE(_query, ''))), '\s+') AS t(raw)
+        WHERE raw <> ''
+      ) w
+      WHERE NOT (
+        p.search_text LIKE '%' || w.word || '%'
+        OR LOWER(COALESCE(fp.farm_name, '')) LIKE '%' || w.word || '%'
+        OR LOWER(COALESCE(c.name, '')) LIKE '%' || w.word || '%'
+        OR COALESCE(c.thai_name, '') LIKE '%' || w.word || '%'
+      )
+    )
+$$;
+
+-- One page of search results. Every sort is expressed as an ascending numeric
+-- sort_key so the next page starts after the last row's (sort_key, id).
+--   fresh: newest harvest first, price_asc / price_desc, rating: best farm first,
+--   distance: nearest farm first, farms without a distance last
+CREATE OR REPLACE FUNCTION public.search_products(
+  _query TEXT DEFAULT NULL,
+  _product_type public.product_type DEFAULT NULL,
+  _cultivar_id UUID DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _harvest_from DATE DEFAULT NULL,
+  _harvest_to DATE DEFAULT NULL,
+  _verified_only BOOLEAN DEFAULT FALSE,
+  _in_stock BOOLEAN DEFAULT FALSE,
+  _origin_lat DOUBLE PRECISION DEFAULT NULL,
+  _origin_lng DOUBLE PRECISION DEFAULT NULL,
+  _max_distance_km NUMERIC DEFAULT NULL,
+  _sort TEXT DEFAULT 'fresh',
+  _cursor_key NUMERIC DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  id UUID,
+  farm_id UUID,
+  cultivar_id UUID,
+  name TEXT,
+  description TEXT,
+  product_type public.product_type,
+  price_per_unit NUMERIC,
+  available_quantity INTEGER,
+  unit TEXT,
+  harvest_date DATE,
+  image_url TEXT,
+  farm_name TEXT,
+  farm_location TEXT,
+  farm_rating NUMERIC,
+  farm_verified BOOLEAN,
+  farm_latitude DOUBLE PRECISION,
+  farm_longitude DOUBLE PRECISION,
+  distance_km NUMERIC,
+  sort_key NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT b.*,
+      CASE _sort
+        WHEN 'price_asc' THEN b.price_per_unit
+        WHEN 'price_desc' THEN -b.price_per_unit
+        WHEN 'rating' THEN -COALESCE(b.farm_rating, 0)
+        WHEN 'distance' THEN COALESCE(b.distance_km, 1000000)
+        ELSE -(b.harvest_date - DATE '2000-01-01')::NUMERIC
+      END AS sort_key
+    FROM public.search_products_base(
+      _query, _product_type, _cultivar_id, _min_price, _max_price,
+      _harvest_from, _harvest_to, _verified_only, _in_stock,
+      _origin_lat, _origin_lng, _max_distance_km
+    ) b
+  ) ranked
+  WHERE _cursor_id IS NULL OR (ranked.sort_key, ranked.id) > (_cursor_key, _cursor_id)
+  ORDER BY ranked.sort_key, ranked.id
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 24), 1), 100)
+$$;
+
+-- Listing counts per cultivar for the same filters, ignoring the cultivar filter
+CREATE OR REPLACE FUNCTION public.search_product_cultivar_counts(
+  _query TEXT DEFAULT NULL,
+  _product_type public.product_type DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _harvest_from DATE DEFAULT NULL,
+  _harvest_to DATE DEFAULT NULL,
+  _verified_only BOOLEAN DEFAULT FALSE,
+  _in_stock BOOLEAN DEFAULT FALSE,
+  _origin_lat DOUBLE PRECISION DEFAULT NULL,
+  _origin_lng DOUBLE PRECISION DEFAULT NULL,
+  _max_distance_km NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (cultivar_id UUID, product_count INTEGER)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.cultivar_id, COUNT(*)::INTEGER
+  FROM public.search_products_base(
+    _query, _product_type, NULL, _min_price, _max_price,
+    _harvest_from, _harvest_to, _verified_only, _in_stock,
+    _origin_lat, _origin_lng, _max_distance_km
+  ) b
+  WHERE b.cultivar_id IS NOT NULL
+  GROUP BY b.cultivar_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products_base(TEXT, public.product_type, UUID, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, public.product_type, UUID, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, TEXT, NUMERIC, UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_product_cultivar_counts(TEXT, public.product_type, NUMERIC, NUMERIC, DATE, DATE, BOOLEAN, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.distance_km(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
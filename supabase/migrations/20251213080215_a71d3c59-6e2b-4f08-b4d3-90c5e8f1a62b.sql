@@ -0,0 +1,538 @@
+-- Saved delivery addresses. profiles are readable by everyone, so buyer
+-- addresses move out of profiles into an owner-only address book.
+
+-- Thai administrative divisions for the province > district > subdistrict pickers.
+-- Provinces are seeded here; districts and subdistricts are reference data loaded
+-- from the Department of Provincial Administration code list. The pickers fall
+-- back to free text for provinces that have no districts loaded.
+CREATE TABLE public.thai_provinces (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[1-9][0-9]$'),
+  name TEXT NOT NULL,
+  thai_name TEXT NOT NULL
+);
+
+CREATE TABLE public.thai_districts (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[1-9][0-9]{3}$'),
+  province_code TEXT NOT NULL REFERENCES public.thai_provinces(code),
+  name TEXT NOT NULL,
+  thai_name TEXT NOT NULL
+);
+
+CREATE TABLE public.thai_subdistricts (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[1-9][0-9]{5}$'),
+  district_code TEXT NOT NULL REFERENCES public.thai_districts(code),
+  name TEXT NOT NULL,
+  thai_name TEXT NOT NULL,
+  postcode TEXT NOT NULL CHECK (postcode ~ '^[1-9][0-9]{4}$')
+);
+
+CREATE INDEX idx_thai_districts_province_code ON public.thai_districts(province_code);
+CREATE INDEX idx_thai_subdistricts_district_code ON public.thai_subdistricts(district_code);
+
+ALTER TABLE public.thai_provinces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.thai_districts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.thai_subdistricts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view provinces" ON public.thai_provinces FOR SELECT USING (true);
+CREATE POLICY "Anyone can view districts" ON public.thai_districts FOR SELECT USING (true);
+CREATE POLICY "Anyone can view subdistricts" ON public.thai_subdistricts FOR SELECT USING (true);
+
+INSERT INTO public.thai_provinces (code, name, thai_name) VALUES
+  ('10', 'Bangkok', 'กรุงเทพมหานคร'),
+  ('11', 'Samut Prakan', 'สมุทรปราการ'),
+  ('12', 'Nonthaburi', 'นนทบุรี'),
+  ('13', 'Pathum Thani', 'ปทุมธานี'),
+  ('14', 'Phra Nakhon Si Ayutthaya', 'พระนครศรีอยุธยา'),
+  ('15', 'Ang Thong', 'อ่างทอง'),
+  ('16', 'Lopburi', 'ลพบุรี'),
+  ('17', 'Sing Buri', 'สิงห์บุรี'),
+  ('18', 'Chai Nat', 'ชัยนาท'),
+  ('19', 'Saraburi', 'สระบุรี'),
+  ('20', 'Chonburi', 'ชลบุรี'),
+  ('21', 'Rayong', 'ระยอง'),
+  ('22', 'Chanthaburi', 'จันทบุรี'),
+  ('23', 'Trat', 'ตราด'),
+  ('24', 'Chachoengsao', 'ฉะเชิงเทรา'),
+  ('25', 'Prachin Buri', 'ปราจีนบุรี'),
+  ('26', 'Nakhon Nayok', 'นครนายก'),
+  ('27', 'Sa Kaeo', 'สระแก้ว'),
+  ('30', 'Nakhon Ratchasima', 'นครราชสีมา'),
+  ('31', 'Buriram', 'บุรีรัมย์'),
+  ('32', 'Surin', 'สุรินทร์'),
+  ('33', 'Sisaket', 'ศรีสะเกษ'),
+  ('34', 'Ubon Ratchathani', 'อุบลราชธานี'),
+  ('35', 'Yasothon', 'ยโสธร'),
+  ('36', 'Chaiyaphum', 'ชัยภูมิ'),
+  ('37', 'Amnat Charoen', 'อำนาจเจริญ'),
+  ('38', 'Bueng Kan', 'บึงกาฬ'),
+  ('39', 'Nong Bua Lam Phu', 'หนองบัวลำภู'),
+  ('40', 'Khon Kaen', 'ขอนแก่น'),
+  ('41', 'Udon Thani', 'อุดรธานี'),
+  ('42', 'Loei', 'เลย'),
+  ('43', 'Nong Khai', 'หนองคาย'),
+  ('44', 'Maha Sarakham', 'มหาสารคาม'),
+  ('45', 'Roi Et', 'ร้อยเอ็ด'),
+  ('46', 'Kalasin', 'กาฬสินธุ์'),
+  ('47', 'Sakon Nakhon', 'สกลนคร'),
+  ('48', 'Nakhon Phanom', 'นครพนม'),
+  ('49', 'Mukdahan', 'มุกดาหาร'),
+  ('50', 'Chiang Mai', 'เชียงใหม่'),
+  ('51', 'Lamphun', 'ลำพูน'),
+  ('52', 'Lampang', 'ลำปาง'),
+  ('53', 'Uttaradit', 'อุตรดิตถ์'),
+  ('54', 'Phrae', 'แพร่'),
+  ('55', 'Nan', 'น่าน'),
+  ('56', 'Phayao', 'พะเยา'),
+  ('57', 'Chiang Rai', 'เชียงราย'),
+  ('58', 'Mae Hong Son', 'แม่ฮ่องสอน'),
+  ('60', 'Nakhon Sawan', 'นครสวรรค์'),
+  ('61', 'Uthai Thani', 'อุทัยธานี'),
+  ('62', 'Kamphaeng Phet', 'กำแพงเพชร'),
+  ('63', 'Tak', 'ตาก'),
+  ('64', 'Sukhothai', 'สุโขทัย'),
+  ('65', 'Phitsanulok', 'พิษณุโลก'),
+  ('66', 'Phichit', 'พิจิตร'),
+  ('67', 'Phetchabun', 'เพชรบูรณ์'),
+  ('70', 'Ratchaburi', 'ราชบุรี'),
+  ('71', 'Kanchanaburi', 'กาญจนบุรี'),
+  ('72', 'Suphan Buri', 'สุพรรณบุรี'),
+  ('73', 'Nakhon Pathom', 'นครปฐม'),
+  ('74', 'Samut Sakhon', 'สมุทรสาคร'),
+  ('75', 'Samut Songkhram', 'สมุทรสงคราม'),
+  ('76', 'Phetchaburi', 'เพชรบุรี'),
+  ('77', 'Prachuap Khiri Khan', 'ประจวบคีรีขันธ์'),
+  ('80', 'Nakhon Si Thammarat', 'นครศรีธรรมราช'),
+  ('81', 'Krabi', 'กระบี่'),
+  ('82', 'Phang Nga', 'พังงา'),
+  ('83', 'Phuket', 'ภูเก็ต'),
+  ('84', 'Surat Thani', 'สุราษฎร์ธานี'),
+  ('85', 'Ranong', 'ระนอง'),
+  ('86', 'Chumphon', 'ชุมพร'),
+  ('90', 'Songkhla', 'สงขลา'),
+  ('91', 'Satun', 'สตูล'),
+  ('92', 'Trang', 'ตรัง'),
+  ('93', 'Phatthalung', 'พัทลุง'),
+  ('94', 'Pattani', 'ปัตตานี'),
+  ('95', 'Yala', 'ยะลา'),
+  ('96', 'Narathiwat', 'นราธิวาส');
+
+ALTER TABLE public.farm_profiles
+  ADD CONSTRAINT farm_profiles_province_code_fkey FOREIGN KEY (province_code) REFERENCES public.thai_provinces(code);
+
+CREATE TABLE public.addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL DEFAULT 'Home',
+  recipient_name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  address_line TEXT NOT NULL,
+  subdistrict TEXT NOT NULL,
+  district TEXT NOT NULL,
+  province_code TEXT REFERENCES public.thai_provinces(code),
+  postcode TEXT CHECK (postcode ~ '^[1-9][0-9]{4}$'),
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Set on addresses carried over from profiles that are missing something; the
+  -- owner completes them in the address book before they can be used at checkout
+  needs_review BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT addresses_coordinates_check CHECK ((latitude IS NULL) = (longitude IS NULL)),
+  CONSTRAINT addresses_complete_check CHECK (needs_review OR (
+    TRIM(recipient_name) <> ''
+    AND phone ~ '^0[0-9]{8,9}$'
+    AND TRIM(address_line) <> ''
+    AND province_code IS NOT NULL
+    AND postcode IS NOT NULL
+  ))
+);
+
+CREATE INDEX idx_addresses_user_id ON public.addresses(user_id);
+CREATE UNIQUE INDEX idx_addresses_one_default ON public.addresses(user_id) WHERE is_default;
+
+ALTER TABLE public.addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own addresses" ON public.addresses FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own addresses" ON public.addresses FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own addresses" ON public.addresses FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own addresses" ON public.addresses FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_addresses_updated_at BEFORE UPDATE ON public.addresses
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keeps exactly one default per user: the first address becomes the default,
+-- a new default replaces the old one, and deleting the default promotes the
+-- most recently added remaining address.
+CREATE OR REPLACE FUNCTION public.maintain_default_address()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_default THEN
+      UPDATE public.addresses
+      SET is_default = TRUE
+      WHERE id = (
+        SELECT id FROM public.addresses
+        WHERE user_id = OLD.user_id
+        ORDER BY created_at DESC
+        LIMIT 1
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.addresses WHERE user_id = NEW.user_id AND is_default
+  ) THEN
+    NEW.is_default := TRUE;
+  END IF;
+
+  IF NEW.is_default THEN
+    UPDATE public.addresses
+    SET is_default = FALSE
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintain_default_address_on_write BEFORE INSERT OR UPDATE OF is_default ON public.addresses
+  FOR EACH ROW EXECUTE FUNCTION public.maintain_default_address();
+
+CREATE TRIGGER maintain_default_address_on_delete AFTER DELETE ON public.addresses
+  FOR EACH ROW EXECUTE FUNCTION public.maintain_default_address();
+
+-- Where the subdistrict is in the reference tables, the postcode must be one of its postcodes
+CREATE OR REPLACE FUNCTION public.validate_address_postcode()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+DECLARE
+  _postcodes TEXT[];
+BEGIN
+  IF NEW.needs_review THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT ARRAY_AGG(DISTINCT s.postcode) INTO _postcodes
+  FROM public.thai_subdistricts s
+  JOIN public.thai_districts d ON d.code = s.district_code
+  WHERE d.province_code = NEW.province_code
+    AND NEW.district IN (d.name, d.thai_name)
+    AND NEW.subdistrict IN (s.name, s.thai_name);
+
+  IF _postcodes IS NOT NULL AND NOT NEW.postcode = ANY (_postcodes) THEN
+    RAISE EXCEPTION 'Postcode % does not match %, %', NEW.postcode, NEW.subdistrict, NEW.district;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_address_postcode BEFORE INSERT OR UPDATE ON public.addresses
+  FOR EACH ROW EXECUTE FUNCTION public.validate_address_postcode();
+
+-- Carry over every profile address. Ones that are not complete enough to deliver to
+-- are kept as they were and flagged for their owner to finish.
+INSERT INTO public.addresses (
+  user_id, recipient_name, phone, address_line, subdistrict, district,
+  province_code, postcode, latitude, longitude, is_default, needs_review
+)
+SELECT
+  a.id, a.recipient_name, a.phone, a.address_line, a.subdistrict, a.district,
+  a.province_code, a.postcode, a.latitude, a.longitude, TRUE,
+  NOT (
+    a.recipient_name <> ''
+    AND a.phone ~ '^0[0-9]{8,9}$'
+    AND a.address_line <> ''
+    AND a.province_code IS NOT NULL
+    AND a.postcode IS NOT NULL
+  )
+FROM (
+  SELECT
+    p.id,
+    TRIM(COALESCE(p.full_name, '')) AS recipient_name,
+    -- Digits only when that makes a valid number, otherwise as typed so nothing is lost
+    CASE
+      WHEN REGEXP_REPLACE(COALESCE(p.phone, ''), '[^0-9]', '', 'g') ~ '^0[0-9]{8,9}$'
+        THEN REGEXP_REPLACE(p.phone, '[^0-9]', '', 'g')
+      ELSE TRIM(COALESCE(p.phone, ''))
+    END AS phone,
+    TRIM(COALESCE(p.address, '')) AS address_line,
+    COALESCE(p.subdistrict, '') AS subdistrict,
+    COALESCE(p.district, '') AS district,
+    -- profiles only checked the code's format, not that the province exists
+    (SELECT code FROM public.thai_provinces WHERE code = p.province_code) AS province_code,
+    p.postcode,
+    l.latitude,
+    l.longitude
+  FROM public.profiles p
+  LEFT JOIN public.profile_locations l ON l.user_id = p.id
+  WHERE TRIM(COALESCE(p.address, '')) <> ''
+    OR TRIM(COALESCE(p.subdistrict, '')) <> ''
+    OR TRIM(COALESCE(p.district, '')) <> ''
+    OR p.province_code IS NOT NULL
+    OR p.postcode IS NOT NULL
+    OR l.user_id IS NOT NULL
+) a;
+
+ALTER TABLE public.profiles
+  DROP COLUMN address,
+  DROP COLUMN subdistrict,
+  DROP COLUMN district,
+  DROP COLUMN province_code,
+  DROP COLUMN postcode;
+
+DROP TABLE public.profile_locations;
+
+-- The address an order ships to, frozen at checkout so later edits to the
+-- address book do not change past orders. delivery_address keeps the same
+-- address as one line of text.
+ALTER TABLE public.orders ADD COLUMN delivery_snapshot JSONB;
+
+-- The snapshot is as fixed as the rest of the order once it is placed
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor TEXT;
+BEGIN
+  -- Service-role callers (edge functions, cron jobs) have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    _actor := 'system';
+  ELSIF auth.uid() = OLD.farm_id THEN
+    _actor := 'farm';
+  ELSIF auth.uid() = OLD.user_id THEN
+    _actor := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'You are not allowed to update this order';
+  END IF;
+
+  -- Order contents are fixed once placed
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.farm_id IS DISTINCT FROM OLD.farm_id
+    OR NEW.checkout_id IS DISTINCT FROM OLD.checkout_id
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.delivery_address IS DISTINCT FROM OLD.delivery_address
+    OR NEW.delivery_snapshot IS DISTINCT FROM OLD.delivery_snapshot
+    OR NEW.delivery_notes IS DISTINCT FROM OLD.delivery_notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Order details cannot be changed after the order is placed';
+  END IF;
+
+  -- Timestamps are owned by this trigger
+  NEW.confirmed_at := OLD.confirmed_at;
+  NEW.shipped_at := OLD.shipped_at;
+  NEW.delivered_at := OLD.delivered_at;
+  NEW.cancelled_at := OLD.cancelled_at;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    -- Without a status change only the farm may correct the tracking number
+    IF NEW.tracking_number IS DISTINCT FROM OLD.tracking_number
+      AND NOT (_actor = 'farm' AND OLD.status IN ('confirmed', 'shipped')) THEN
+      RAISE EXCEPTION 'Tracking number cannot be changed on a % order', OLD.status;
+    END IF;
+
+    IF NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason THEN
+      RAISE EXCEPTION 'Cancellation reason can only be set when cancelling';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (_actor = 'farm' AND OLD.status = 'pending' AND NEW.status = 'confirmed')
+    OR (_actor = 'farm' AND OLD.status = 'confirmed' AND NEW.status = 'shipped')
+    OR (_actor = 'farm' AND OLD.status = 'shipped' AND NEW.status = 'delivered')
+    OR (_actor = 'buyer' AND OLD.status = 'pending' AND NEW.status = 'cancelled')
+    OR (_actor = 'buyer' AND OLD.status = 'delivered' AND NEW.status = 'reviewed'
+        AND EXISTS (SELECT 1 FROM public.reviews WHERE order_id = OLD.id))
+    OR (_actor = 'system' AND OLD.status IN ('pending', 'confirmed') AND NEW.status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order from % to % as %', OLD.status, NEW.status, _actor;
+  END IF;
+
+  IF NEW.tracking_number IS DISTINCT FROM OLD.tracking_number AND NEW.status <> 'shipped' THEN
+    RAISE EXCEPTION 'Tracking number can only be set when shipping';
+  END IF;
+
+  IF NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Cancellation reason can only be set when cancelling';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'confirmed' THEN
+      NEW.confirmed_at := NOW();
+    WHEN 'shipped' THEN
+      IF COALESCE(TRIM(NEW.tracking_number), '') = '' THEN
+        RAISE EXCEPTION 'A tracking number is required to ship an order';
+      END IF;
+      NEW.tracking_number := TRIM(NEW.tracking_number);
+      NEW.shipped_at := NOW();
+    WHEN 'delivered' THEN
+      NEW.delivered_at := NOW();
+    WHEN 'cancelled' THEN
+      NEW.cancelled_at := NOW();
+      NEW.cancellation_reason := COALESCE(
+        NULLIF(TRIM(NEW.cancellation_reason), ''),
+        CASE _actor WHEN 'buyer' THEN 'Cancelled by buyer' ELSE 'Cancelled by system' END
+      );
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.format_address(_address public.addresses)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT CONCAT_WS(', ',
+    NULLIF(TRIM(_address.address_line), ''),
+    NULLIF(TRIM(_address.subdistrict), ''),
+    NULLIF(TRIM(_address.district), ''),
+    (SELECT name FROM public.thai_provinces WHERE code = _address.province_code),
+    _address.postcode
+  )
+$$;
+
+DROP FUNCTION public.place_checkout(JSONB, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_checkout(
+  _items JSONB,
+  _address_id UUID,
+  _delivery_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _checkout_id UUID := gen_random_uuid();
+  _lines JSONB;
+  _line RECORD;
+  _product public.products%ROWTYPE;
+  _farm_id UUID;
+  _order_id UUID;
+  _total DECIMAL(10,2);
+  _address public.addresses%ROWTYPE;
+  _snapshot JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  IF _address.needs_review THEN
+    RAISE EXCEPTION 'Please complete this address in your address book before checking out';
+  END IF;
+
+  _snapshot := jsonb_build_object(
+    'label', _address.label,
+    'recipient_name', _address.recipient_name,
+    'phone', _address.phone,
+    'address_line', _address.address_line,
+    'subdistrict', _address.subdistrict,
+    'district', _address.district,
+    'province_code', _address.province_code,
+    'province_name', (SELECT name FROM public.thai_provinces WHERE code = _address.province_code),
+    'postcode', _address.postcode,
+    'latitude', _address.latitude,
+    'longitude', _address.longitude
+  );
+
+  -- Merge duplicate lines; sorted so concurrent checkouts lock rows in the same order
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity) ORDER BY product_id)
+  INTO _lines
+  FROM (
+    SELECT (e->>'product_id')::UUID AS product_id, SUM((e->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(_items) e
+    GROUP BY 1
+  ) merged;
+
+  FOR _line IN SELECT * FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER) LOOP
+    IF _line.quantity IS NULL OR _line.quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = _line.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR _product.is_active IS NOT TRUE THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    IF _product.farm_id = auth.uid() THEN
+      RAISE EXCEPTION 'You cannot order your own product';
+    END IF;
+
+    IF _product.available_quantity < _line.quantity THEN
+      RAISE EXCEPTION 'Only % % of % left in stock', _product.available_quantity, _product.unit, _product.name;
+    END IF;
+  END LOOP;
+
+  FOR _farm_id IN
+    SELECT DISTINCT p.farm_id
+    FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER)
+    JOIN public.products p ON p.id = l.product_id
+  LOOP
+    SELECT SUM(p.price_per_unit * l.quantity) INTO _total
+    FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER)
+    JOIN public.products p ON p.id = l.product_id
+    WHERE p.farm_id = _farm_id;
+
+    INSERT INTO public.orders (
+      user_id, farm_id, checkout_id, total_price,
+      status, delivery_address, delivery_snapshot, delivery_notes
+    )
+    VALUES (
+      auth.uid(), _farm_id, _checkout_id, _total,
+      'pending', public.format_address(_address), _snapshot, NULLIF(TRIM(_delivery_notes), '')
+    )
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT _order_id, p.id, l.quantity, p.price_per_unit, p.price_per_unit * l.quantity
+    FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER)
+    JOIN public.products p ON p.id = l.product_id
+    WHERE p.farm_id = _farm_id;
+  END LOOP;
+
+  UPDATE public.products p
+  SET available_quantity = p.available_quantity - l.quantity
+  FROM jsonb_to_recordset(_lines) AS l(product_id UUID, quantity INTEGER)
+  WHERE p.id = l.product_id;
+
+  RETURN _checkout_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_checkout(JSONB, UUID, TEXT) TO authenticated;
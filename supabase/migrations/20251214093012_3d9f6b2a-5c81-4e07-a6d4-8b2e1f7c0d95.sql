@@ -0,0 +1,102 @@
+-- Buyers can confirm receipt of a shipped order themselves instead of waiting for the farm
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor TEXT;
+BEGIN
+  -- Service-role callers (edge functions, cron jobs) have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    _actor := 'system';
+  ELSIF auth.uid() = OLD.farm_id THEN
+    _actor := 'farm';
+  ELSIF auth.uid() = OLD.user_id THEN
+    _actor := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'You are not allowed to update this order';
+  END IF;
+
+  -- Order contents are fixed once placed
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.farm_id IS DISTINCT FROM OLD.farm_id
+    OR NEW.checkout_id IS DISTINCT FROM OLD.checkout_id
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.delivery_address IS DISTINCT FROM OLD.delivery_address
+    OR NEW.delivery_snapshot IS DISTINCT FROM OLD.delivery_snapshot
+    OR NEW.delivery_notes IS DISTINCT FROM OLD.delivery_notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Order details cannot be changed after the order is placed';
+  END IF;
+
+  -- Timestamps are owned by this trigger
+  NEW.confirmed_at := OLD.confirmed_at;
+  NEW.shipped_at := OLD.shipped_at;
+  NEW.delivered_at := OLD.delivered_at;
+  NEW.cancelled_at := OLD.cancelled_at;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    -- Without a status change only the farm may correct the tracking number
+    IF NEW.tracking_number IS DISTINCT FROM OLD.tracking_number
+      AND NOT (_actor = 'farm' AND OLD.status IN ('confirmed', 'shipped')) THEN
+      RAISE EXCEPTION 'Tracking number cannot be changed on a % order', OLD.status;
+    END IF;
+
+    IF NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason THEN
+      RAISE EXCEPTION 'Cancellation reason can only be set when cancelling';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (_actor = 'farm' AND OLD.status = 'pending' AND NEW.status = 'confirmed')
+    OR (_actor = 'farm' AND OLD.status = 'confirmed' AND NEW.status = 'shipped')
+    OR (_actor = 'farm' AND OLD.status = 'shipped' AND NEW.status = 'delivered')
+    OR (_actor = 'buyer' AND OLD.status = 'pending' AND NEW.status = 'cancelled')
+    OR (_actor = 'buyer' AND OLD.status = 'shipped' AND NEW.status = 'delivered')
+    OR (_actor = 'buyer' AND OLD.status = 'delivered' AND NEW.status = 'reviewed'
+        AND EXISTS (SELECT 1 FROM public.reviews WHERE order_id = OLD.id))
+    OR (_actor = 'system' AND OLD.status IN ('pending', 'confirmed') AND NEW.status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change order from % to % as %', OLD.status, NEW.status, _actor;
+  END IF;
+
+  IF NEW.tracking_number IS DISTINCT FROM OLD.tracking_number AND NEW.status <> 'shipped' THEN
+    RAISE EXCEPTION 'Tracking number can only be set when shipping';
+  END IF;
+
+  IF NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Cancellation reason can only be set when cancelling';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'confirmed' THEN
+      NEW.confirmed_at := NOW();
+    WHEN 'shipped' THEN
+      IF COALESCE(TRIM(NEW.tracking_number), '') = '' THEN
+        RAISE EXCEPTION 'A tracking number is required to ship an order';
+      END IF;
+      NEW.tracking_number := TRIM(NEW.tracking_number);
+      NEW.shipped_at := NOW();
+    WHEN 'delivered' THEN
+      NEW.delivered_at := NOW();
+    WHEN 'cancelled' THEN
+      NEW.cancelled_at := NOW();
+      NEW.cancellation_reason := COALESCE(
+        NULLIF(TRIM(NEW.cancellation_reason), ''),
+        CASE _actor WHEN 'buyer' THEN 'Cancelled by buyer' ELSE 'Cancelled by system' END
+      );
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Order history pages through a buyer's orders newest first
+CREATE INDEX idx_orders_user_id_created_at ON public.orders(user_id, created_at DESC);
@@ -0,0 +1,129 @@
+-- Append-only history of every change to an order, written by a trigger so no code path can skip it
+CREATE TABLE public.order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- 'unknown' only for backfilled events whose actor the old columns do not record
+  actor TEXT NOT NULL CHECK (actor IN ('buyer', 'farm', 'admin', 'system', 'unknown')),
+  -- NULL for system and unknown events (edge functions and cron jobs use the service role)
+  actor_id UUID,
+  old_status order_status,
+  new_status order_status NOT NULL,
+  -- Columns that changed, as { column: { "old": value, "new": value } }
+  changed_fields JSONB NOT NULL DEFAULT '{}'::JSONB,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_events_order_id ON public.order_events(order_id, created_at);
+
+ALTER TABLE public.order_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only ever inserted by log_order_event below
+CREATE POLICY "Order parties can view order events" ON public.order_events FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id AND (auth.uid() = o.user_id OR auth.uid() = o.farm_id)
+  )
+);
+CREATE POLICY "Admins can view all order events" ON public.order_events FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.prevent_order_event_changes()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  -- Rows still go when their order is deleted (ON DELETE CASCADE)
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.orders WHERE id = OLD.order_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Order events cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER prevent_order_event_changes
+  BEFORE UPDATE OR DELETE ON public.order_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_order_event_changes();
+
+CREATE OR REPLACE FUNCTION public.log_order_event()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor TEXT;
+  _changes JSONB;
+BEGIN
+  -- Same attribution as enforce_order_transition; other signed-in callers can
+  -- only reach someone else's order through an admin function
+  IF auth.uid() IS NULL THEN
+    _actor := 'system';
+  ELSIF auth.uid() = NEW.farm_id THEN
+    _actor := 'farm';
+  ELSIF auth.uid() = NEW.user_id THEN
+    _actor := 'buyer';
+  ELSE
+    _actor := 'admin';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.order_events (order_id, actor, actor_id, new_status)
+    VALUES (NEW.id, _actor, auth.uid(), NEW.status);
+
+    RETURN NULL;
+  END IF;
+
+  -- The status and payment timestamps only ever move with the column they stamp
+  SELECT COALESCE(jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value)), '{}'::JSONB)
+  INTO _changes
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value
+    AND n.key NOT IN ('updated_at', 'confirmed_at', 'shipped_at', 'delivered_at', 'cancelled_at', 'paid_at');
+
+  IF _changes = '{}'::JSONB THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.order_events (order_id, actor, actor_id, old_status, new_status, changed_fields, reason)
+  VALUES (
+    NEW.id,
+    _actor,
+    auth.uid(),
+    OLD.status,
+    NEW.status,
+    _changes,
+    CASE WHEN NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN NEW.cancellation_reason END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_order_event
+  AFTER INSERT OR UPDATE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.log_order_event();
+
+-- Reconstruct the history of existing orders from their status timestamps. Only the
+-- farm could confirm or ship them, and the cancellation reason names the buyer. Either
+-- party can mark an order delivered, and nothing records which one did.
+INSERT INTO public.order_events (order_id, actor, actor_id, old_status, new_status, reason, created_at)
+SELECT id, 'buyer', user_id, NULL::order_status, 'pending'::order_status, NULL, COALESCE(created_at, NOW()) FROM public.orders
+UNION ALL
+SELECT id, 'farm', farm_id, 'pending', 'confirmed', NULL, confirmed_at FROM public.orders WHERE confirmed_at IS NOT NULL
+UNION ALL
+SELECT id, 'farm', farm_id, 'confirmed', 'shipped', NULL, shipped_at FROM public.orders WHERE shipped_at IS NOT NULL
+UNION ALL
+SELECT id, 'unknown', NULL, 'shipped', 'delivered', NULL, delivered_at FROM public.orders WHERE delivered_at IS NOT NULL
+UNION ALL
+SELECT
+  id,
+  CASE WHEN cancellation_reason = 'Cancelled by buyer' THEN 'buyer' ELSE 'system' END,
+  CASE WHEN cancellation_reason = 'Cancelled by buyer' THEN user_id END,
+  CASE WHEN confirmed_at IS NOT NULL THEN 'confirmed' ELSE 'pending' END::order_status,
+  'cancelled',
+  cancellation_reason,
+  cancelled_at
+FROM public.orders WHERE cancelled_at IS NOT NULL;
@@ -0,0 +1,278 @@
+-- Order expiry: how long a farm has to confirm an order and how long after harvest it
+-- must go out, run by the order-scheduler edge function instead of two hard-coded jobs
+CREATE TABLE public.order_expiry_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('farm_confirm', 'pickup_window')),
+  -- NULL for the global rule; a farm's own row replaces it for that farm
+  farm_id UUID REFERENCES public.farm_profiles(user_id) ON DELETE CASCADE,
+  window_hours INTEGER NOT NULL CHECK (window_hours > 0),
+  -- Warn this many hours before the deadline, if set
+  warning_hours INTEGER CHECK (warning_hours > 0 AND warning_hours < window_hours),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (kind, farm_id)
+);
+
+ALTER TABLE public.order_expiry_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Farms can view rules that apply to them" ON public.order_expiry_rules FOR SELECT USING (
+  farm_id IS NULL OR auth.uid() = farm_id
+);
+CREATE POLICY "Admins can manage order expiry rules" ON public.order_expiry_rules FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_order_expiry_rules_updated_at BEFORE UPDATE ON public.order_expiry_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The windows the old auto-cancel-orders and check-farm-confirm jobs used
+INSERT INTO public.order_expiry_rules (kind, window_hours, warning_hours) VALUES
+  ('farm_confirm', 48, 24),
+  ('pickup_window', 7 * 24, 48);
+
+-- Warnings already sent, so each one goes out once however often the scheduler runs
+CREATE TABLE public.order_deadline_notices (
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  hours_before INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (order_id, kind, hours_before)
+);
+
+ALTER TABLE public.order_deadline_notices ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.format_hours(_hours INTEGER)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _hours >= 72 AND _hours % 24 = 0 THEN (_hours / 24) || ' days'
+    ELSE _hours || ' hours'
+  END
+$$;
+
+-- Every open order's deadline under each rule kind. A farm's own rule wins over the
+-- global one even when inactive, which is how a farm is exempted.
+CREATE OR REPLACE FUNCTION public.order_expiry_deadlines()
+RETURNS TABLE (
+  order_id UUID,
+  user_id UUID,
+  farm_id UUID,
+  kind TEXT,
+  window_hours INTEGER,
+  warning_hours INTEGER,
+  deadline TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.user_id,
+    o.farm_id,
+    r.kind,
+    r.window_hours,
+    r.warning_hours,
+    CASE r.kind
+      WHEN 'farm_confirm' THEN o.created_at
+      ELSE h.first_harvest::TIMESTAMP WITH TIME ZONE
+    END + make_interval(hours => r.window_hours)
+  FROM public.orders o
+  CROSS JOIN (VALUES ('farm_confirm'), ('pickup_window')) k(kind)
+  JOIN LATERAL (
+    SELECT *
+    FROM public.order_expiry_rules er
+    WHERE er.kind = k.kind AND (er.farm_id = o.farm_id OR er.farm_id IS NULL)
+    ORDER BY er.farm_id NULLS LAST
+    LIMIT 1
+  ) r ON r.is_active
+  LEFT JOIN LATERAL (
+    SELECT MIN(p.harvest_date) AS first_harvest
+    FROM public.order_items i
+    JOIN public.products p ON p.id = i.product_id
+    WHERE i.order_id = o.id
+  ) h ON TRUE
+  WHERE (k.kind = 'farm_confirm' AND o.status = 'pending')
+    OR (k.kind = 'pickup_window' AND o.status IN ('pending', 'confirmed') AND h.first_harvest IS NOT NULL)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.order_expiry_deadlines() FROM PUBLIC, anon, authenticated;
+
+-- Cancels overdue orders and sends due warnings for one batch of orders, paging by
+-- order id with _after. Every write is conditional, so overlapping or repeated runs
+-- never cancel or warn twice. _dry_run reports what would happen without writing, and
+-- _now lets a run be replayed at any point in time, e.g. against a local database:
+--   SELECT public.run_order_expiry(_dry_run := TRUE, _now := NOW() + INTERVAL '3 days');
+CREATE OR REPLACE FUNCTION public.run_order_expiry(
+  _dry_run BOOLEAN DEFAULT FALSE,
+  _batch_size INTEGER DEFAULT 100,
+  _after UUID DEFAULT NULL,
+  _now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS JSONB
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+DECLARE
+  _batch UUID[];
+  _deadline RECORD;
+  _cancelled JSONB := '[]'::JSONB;
+  _warned JSONB := '[]'::JSONB;
+  _cancelled_ids UUID[] := '{}';
+  _skipped INTEGER := 0;
+  _reason TEXT;
+  _written BOOLEAN;
+BEGIN
+  SELECT COALESCE(ARRAY_AGG(id ORDER BY id), '{}') INTO _batch
+  FROM (
+    SELECT DISTINCT d.order_id AS id
+    FROM public.order_expiry_deadlines() d
+    WHERE (_after IS NULL OR d.order_id > _after)
+      AND (d.deadline <= _now OR d.deadline - make_interval(hours => d.warning_hours) <= _now)
+    ORDER BY 1
+    LIMIT _batch_size
+  ) due;
+
+  -- Earliest deadline first, so an order past both rules is cancelled under the one it broke first
+  FOR _deadline IN
+    SELECT d.*
+    FROM public.order_expiry_deadlines() d
+    WHERE d.order_id = ANY(_batch)
+    ORDER BY d.order_id, d.deadline
+  LOOP
+    IF _deadline.order_id = ANY(_cancelled_ids) THEN
+      CONTINUE;
+    END IF;
+
+    IF _deadline.deadline <= _now THEN
+      _reason := CASE _deadline.kind
+        WHEN 'farm_confirm' THEN 'Farm did not confirm within ' || public.format_hours(_deadline.window_hours)
+        ELSE 'Auto-cancelled: Exceeded ' || public.format_hours(_deadline.window_hours) || ' after harvest date'
+      END;
+
+      IF _dry_run THEN
+        _written := TRUE;
+      ELSE
+        UPDATE public.orders
+        SET status = 'cancelled', cancellation_reason = _reason
+        WHERE id = _deadline.order_id
+          AND status IN ('pending', 'confirmed')
+          AND (_deadline.kind <> 'farm_confirm' OR status = 'pending');
+        _written := FOUND;
+      END IF;
+
+      IF NOT _written THEN
+        _skipped := _skipped + 1;
+        CONTINUE;
+      END IF;
+
+      _cancelled_ids := _cancelled_ids || _deadline.order_id;
+      _cancelled := _cancelled || jsonb_build_object(
+        'order_id', _deadline.order_id,
+        'kind', _deadline.kind,
+        'deadline', _deadline.deadline,
+        'reason', _reason
+      );
+
+      IF NOT _dry_run THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (
+          _deadline.user_id,
+          'Order Cancelled',
+          CASE _deadline.kind
+            WHEN 'farm_confirm' THEN 'Your order was cancelled as the farm did not confirm within '
+              || public.format_hours(_deadline.window_hours) || '.'
+            ELSE 'Your order was automatically cancelled as it exceeded the pickup window.'
+          END,
+          'order_cancelled',
+          _deadline.order_id
+        );
+
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (
+          _deadline.farm_id,
+          CASE _deadline.kind WHEN 'farm_confirm' THEN 'Missed Confirmation' ELSE 'Order Expired' END,
+          'An order was auto-cancelled: ' || _reason || '.',
+          CASE _deadline.kind WHEN 'farm_confirm' THEN 'confirmation_missed' ELSE 'order_expired' END,
+          _deadline.order_id
+        );
+      END IF;
+    ELSIF _deadline.deadline - make_interval(hours => _deadline.warning_hours) <= _now THEN
+      IF _dry_run THEN
+        _written := NOT EXISTS (
+          SELECT 1 FROM public.order_deadline_notices
+          WHERE order_id = _deadline.order_id
+            AND kind = _deadline.kind
+            AND hours_before = _deadline.warning_hours
+        );
+      ELSE
+        INSERT INTO public.order_deadline_notices (order_id, kind, hours_before)
+        VALUES (_deadline.order_id, _deadline.kind, _deadline.warning_hours)
+        ON CONFLICT DO NOTHING;
+        _written := FOUND;
+      END IF;
+
+      -- Already warned on an earlier run
+      IF NOT _written THEN
+        CONTINUE;
+      END IF;
+
+      _warned := _warned || jsonb_build_object(
+        'order_id', _deadline.order_id,
+        'kind', _deadline.kind,
+        'deadline', _deadline.deadline
+      );
+
+      IF NOT _dry_run THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (
+          _deadline.farm_id,
+          CASE _deadline.kind WHEN 'farm_confirm' THEN 'Confirm Order Soon' ELSE 'Ship Order Soon' END,
+          CASE _deadline.kind
+            WHEN 'farm_confirm' THEN 'An order will be cancelled unless you confirm it by '
+            ELSE 'An order will be cancelled unless it ships by '
+          END || to_char(_deadline.deadline AT TIME ZONE 'Asia/Bangkok', 'DD Mon HH24:MI') || '.',
+          'order_deadline_warning',
+          _deadline.order_id
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'dry_run', _dry_run,
+    'now', _now,
+    'processed', COALESCE(array_length(_batch, 1), 0),
+    'cancelled', _cancelled,
+    'warned', _warned,
+    'skipped', _skipped,
+    -- Another batch may follow when this one was full
+    'next_cursor', CASE WHEN array_length(_batch, 1) = _batch_size THEN _batch[_batch_size] END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_order_expiry(BOOLEAN, INTEGER, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_order_expiry(BOOLEAN, INTEGER, UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION public.order_expiry_deadlines() TO service_role;
+
+-- Run the scheduler every 15 minutes. The service role key is read from Vault so it never
+-- lives in a migration: SELECT vault.create_secret('<key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'order-scheduler',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://bdxrijchpuljaishowoj.supabase.co/functions/v1/order-scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::JSONB
+  )
+  $$
+);
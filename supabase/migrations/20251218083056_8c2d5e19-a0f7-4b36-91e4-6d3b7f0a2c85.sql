@@ -0,0 +1,286 @@
+-- Deadline reminders: any number of offsets per rule instead of a single warning
+ALTER TABLE public.order_expiry_rules
+  ADD COLUMN reminder_hours INTEGER[] NOT NULL DEFAULT '{}';
+
+UPDATE public.order_expiry_rules
+SET reminder_hours = ARRAY[warning_hours]
+WHERE warning_hours IS NOT NULL;
+
+ALTER TABLE public.order_expiry_rules
+  DROP COLUMN warning_hours,
+  ADD CONSTRAINT order_expiry_rules_reminder_hours_check
+    CHECK (0 < ALL(reminder_hours) AND window_hours > ALL(reminder_hours));
+
+-- 24 h and 6 h before a farm must confirm, 2 days before the pickup window closes
+UPDATE public.order_expiry_rules SET reminder_hours = '{24, 6}' WHERE farm_id IS NULL AND kind = 'farm_confirm';
+UPDATE public.order_expiry_rules SET reminder_hours = '{48}' WHERE farm_id IS NULL AND kind = 'pickup_window';
+
+-- Limited to one farm's orders when _farm_id is given, for the farm's own countdowns
+DROP FUNCTION public.order_expiry_deadlines();
+
+CREATE OR REPLACE FUNCTION public.order_expiry_deadlines(_farm_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  order_id UUID,
+  user_id UUID,
+  farm_id UUID,
+  kind TEXT,
+  window_hours INTEGER,
+  reminder_hours INTEGER[],
+  deadline TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.user_id,
+    o.farm_id,
+    r.kind,
+    r.window_hours,
+    r.reminder_hours,
+    CASE r.kind
+      WHEN 'farm_confirm' THEN o.created_at
+      ELSE h.first_harvest::TIMESTAMP WITH TIME ZONE
+    END + make_interval(hours => r.window_hours)
+  FROM public.orders o
+  CROSS JOIN (VALUES ('farm_confirm'), ('pickup_window')) k(kind)
+  JOIN LATERAL (
+    SELECT *
+    FROM public.order_expiry_rules er
+    WHERE er.kind = k.kind AND (er.farm_id = o.farm_id OR er.farm_id IS NULL)
+    ORDER BY er.farm_id NULLS LAST
+    LIMIT 1
+  ) r ON r.is_active
+  LEFT JOIN LATERAL (
+    SELECT MIN(p.harvest_date) AS first_harvest
+    FROM public.order_items i
+    JOIN public.products p ON p.id = i.product_id
+    WHERE i.order_id = o.id
+  ) h ON TRUE
+  WHERE (_farm_id IS NULL OR o.farm_id = _farm_id)
+    AND (
+      (k.kind = 'farm_confirm' AND o.status = 'pending')
+      OR (k.kind = 'pickup_window' AND o.status IN ('pending', 'confirmed') AND h.first_harvest IS NOT NULL)
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.order_expiry_deadlines(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.order_expiry_deadlines(UUID) TO service_role;
+
+-- Reminder offsets of a deadline that have come due by _now and were not sent yet
+CREATE OR REPLACE FUNCTION public.due_order_reminders(
+  _order_id UUID,
+  _kind TEXT,
+  _deadline TIMESTAMP WITH TIME ZONE,
+  _reminder_hours INTEGER[],
+  _now TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER[]
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(ARRAY_AGG(offset_hours ORDER BY offset_hours), '{}')
+  FROM unnest(_reminder_hours) AS offset_hours
+  WHERE _deadline > _now
+    AND _deadline - make_interval(hours => offset_hours) <= _now
+    AND NOT EXISTS (
+      SELECT 1 FROM public.order_deadline_notices n
+      WHERE n.order_id = _order_id AND n.kind = _kind AND n.hours_before = offset_hours
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.due_order_reminders(UUID, TEXT, TIMESTAMP WITH TIME ZONE, INTEGER[], TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.run_order_expiry(
+  _dry_run BOOLEAN DEFAULT FALSE,
+  _batch_size INTEGER DEFAULT 100,
+  _after UUID DEFAULT NULL,
+  _now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS JSONB
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+DECLARE
+  _batch UUID[];
+  _deadline RECORD;
+  _cancelled JSONB := '[]'::JSONB;
+  _reminded JSONB := '[]'::JSONB;
+  _cancelled_ids UUID[] := '{}';
+  _skipped INTEGER := 0;
+  _reason TEXT;
+  _written BOOLEAN;
+  _due INTEGER[];
+  _by TEXT;
+BEGIN
+  SELECT COALESCE(ARRAY_AGG(id ORDER BY id), '{}') INTO _batch
+  FROM (
+    SELECT DISTINCT d.order_id AS id
+    FROM public.order_expiry_deadlines() d
+    WHERE (_after IS NULL OR d.order_id > _after)
+      AND (
+        d.deadline <= _now
+        OR cardinality(public.due_order_reminders(d.order_id, d.kind, d.deadline, d.reminder_hours, _now)) > 0
+      )
+    ORDER BY 1
+    LIMIT _batch_size
+  ) due;
+
+  -- Earliest deadline first, so an order past both rules is cancelled under the one it broke first
+  FOR _deadline IN
+    SELECT d.*
+    FROM public.order_expiry_deadlines() d
+    WHERE d.order_id = ANY(_batch)
+    ORDER BY d.order_id, d.deadline
+  LOOP
+    IF _deadline.order_id = ANY(_cancelled_ids) THEN
+      CONTINUE;
+    END IF;
+
+    IF _deadline.deadline <= _now THEN
+      _reason := CASE _deadline.kind
+        WHEN 'farm_confirm' THEN 'Farm did not confirm within ' || public.format_hours(_deadline.window_hours)
+        ELSE 'Auto-cancelled: Exceeded ' || public.format_hours(_deadline.window_hours) || ' after harvest date'
+      END;
+
+      IF _dry_run THEN
+        _written := TRUE;
+      ELSE
+        UPDATE public.orders
+        SET status = 'cancelled', cancellation_reason = _reason
+        WHERE id = _deadline.order_id
+          AND status IN ('pending', 'confirmed')
+          AND (_deadline.kind <> 'farm_confirm' OR status = 'pending');
+        _written := FOUND;
+      END IF;
+
+      IF NOT _written THEN
+        _skipped := _skipped + 1;
+        CONTINUE;
+      END IF;
+
+      _cancelled_ids := _cancelled_ids || _deadline.order_id;
+      _cancelled := _cancelled || jsonb_build_object(
+        'order_id', _deadline.order_id,
+        'kind', _deadline.kind,
+        'deadline', _deadline.deadline,
+        'reason', _reason
+      );
+
+      IF NOT _dry_run THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (
+          _deadline.user_id,
+          'Order Cancelled',
+          CASE _deadline.kind
+            WHEN 'farm_confirm' THEN 'Your order was cancelled as the farm did not confirm within '
+              || public.format_hours(_deadline.window_hours) || '.'
+            ELSE 'Your order was automatically cancelled as it exceeded the pickup window.'
+          END,
+          'order_cancelled',
+          _deadline.order_id
+        );
+
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (
+          _deadline.farm_id,
+          CASE _deadline.kind WHEN 'farm_confirm' THEN 'Missed Confirmation' ELSE 'Order Expired' END,
+          'An order was auto-cancelled: ' || _reason || '.',
+          CASE _deadline.kind WHEN 'farm_confirm' THEN 'confirmation_missed' ELSE 'order_expired' END,
+          _deadline.order_id
+        );
+      END IF;
+
+      CONTINUE;
+    END IF;
+
+    _due := public.due_order_reminders(
+      _deadline.order_id, _deadline.kind, _deadline.deadline, _deadline.reminder_hours, _now
+    );
+
+    IF cardinality(_due) = 0 THEN
+      CONTINUE;
+    END IF;
+
+    -- When a run was missed and several offsets are due at once, only the latest is
+    -- worth sending, but all of them are recorded so none goes out afterwards
+    IF NOT _dry_run THEN
+      INSERT INTO public.order_deadline_notices (order_id, kind, hours_before)
+      SELECT _deadline.order_id, _deadline.kind, offset_hours FROM unnest(_due) AS offset_hours
+      ON CONFLICT DO NOTHING;
+
+      -- A concurrent run got there first
+      IF NOT FOUND THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    _reminded := _reminded || jsonb_build_object(
+      'order_id', _deadline.order_id,
+      'kind', _deadline.kind,
+      'deadline', _deadline.deadline,
+      'hours_before', _due[1]
+    );
+
+    IF NOT _dry_run THEN
+      _by := to_char(_deadline.deadline AT TIME ZONE 'Asia/Bangkok', 'DD Mon HH24:MI');
+
+      IF _deadline.kind = 'farm_confirm' THEN
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES (
+          _deadline.farm_id,
+          'Confirm Order Soon',
+          'An order will be cancelled unless you confirm it by ' || _by || '.',
+          'order_deadline_reminder',
+          _deadline.order_id
+        );
+      ELSE
+        INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+        VALUES
+          (
+            _deadline.farm_id,
+            'Ship Order Soon',
+            'An order will be cancelled unless it ships by ' || _by || '.',
+            'order_deadline_reminder',
+            _deadline.order_id
+          ),
+          (
+            _deadline.user_id,
+            'Pickup Window Closing',
+            'Your order will be cancelled if it has not shipped by ' || _by || '.',
+            'order_deadline_reminder',
+            _deadline.order_id
+          );
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'dry_run', _dry_run,
+    'now', _now,
+    'processed', COALESCE(array_length(_batch, 1), 0),
+    'cancelled', _cancelled,
+    'reminded', _reminded,
+    'skipped', _skipped,
+    -- Another batch may follow when this one was full
+    'next_cursor', CASE WHEN array_length(_batch, 1) = _batch_size THEN _batch[_batch_size] END
+  );
+END;
+$$;
+
+-- Deadlines of the calling farm's open orders, for the countdowns on its order list
+CREATE OR REPLACE FUNCTION public.get_farm_order_deadlines()
+RETURNS TABLE (order_id UUID, kind TEXT, deadline TIMESTAMP WITH TIME ZONE)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.order_id, d.kind, d.deadline
+  FROM public.order_expiry_deadlines(auth.uid()) d
+  WHERE auth.uid() IS NOT NULL
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_farm_order_deadlines() TO authenticated;
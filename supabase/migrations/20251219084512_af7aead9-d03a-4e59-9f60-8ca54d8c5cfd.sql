@@ -0,0 +1,66 @@
+-- A bank slip can pay for one order only. If this fails, the same slip has
+-- already been accepted twice and those payments need checking by hand.
+CREATE UNIQUE INDEX idx_payments_verification_ref ON public.payments(verification_ref)
+  WHERE verification_ref IS NOT NULL;
+
+-- Records the verify-payment-slip edge function's decision. Payment and order
+-- change together, and only while the slip is still waiting: a farm review or
+-- a cancellation that got there first is left alone. Returns the slip status.
+CREATE OR REPLACE FUNCTION public.settle_payment_slip(
+  _payment_id UUID,
+  _verified BOOLEAN,
+  _reference TEXT DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS payment_slip_status
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _payment.order_id FOR UPDATE;
+
+  IF _payment.status <> 'pending'
+    OR _order.payment_status <> 'awaiting_verification'
+    OR _order.status = 'cancelled' THEN
+    RETURN _payment.status;
+  END IF;
+
+  IF _verified AND NULLIF(TRIM(_reference), '') IS NULL THEN
+    RAISE EXCEPTION 'A verified slip needs a transaction reference';
+  END IF;
+
+  IF _verified AND EXISTS (SELECT 1 FROM public.payments WHERE verification_ref = _reference) THEN
+    _verified := FALSE;
+    _reason := 'This slip has already been used for another payment';
+  END IF;
+
+  PERFORM set_config('app.payment_update', 'on', true);
+
+  IF _verified THEN
+    UPDATE public.payments
+    SET status = 'verified', verification_ref = _reference, verified_at = NOW()
+    WHERE id = _payment.id;
+    UPDATE public.orders SET payment_status = 'paid' WHERE id = _order.id;
+    RETURN 'verified';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'rejected', rejection_reason = COALESCE(NULLIF(TRIM(_reason), ''), 'Slip could not be verified')
+  WHERE id = _payment.id;
+  UPDATE public.orders SET payment_status = 'unpaid' WHERE id = _order.id;
+  RETURN 'rejected';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_payment_slip(UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_payment_slip(UUID, BOOLEAN, TEXT, TEXT) TO service_role;
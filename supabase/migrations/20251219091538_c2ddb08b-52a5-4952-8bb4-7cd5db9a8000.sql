@@ -0,0 +1,10 @@
+-- Deleting a farm profile must not take buyers' orders (and with them their
+-- payments, items and events) or reviews along with it. A farm that has any
+-- orders or reviews can no longer be deleted; only its products still cascade.
+ALTER TABLE public.orders DROP CONSTRAINT orders_farm_id_fkey;
+ALTER TABLE public.reviews DROP CONSTRAINT reviews_farm_id_fkey;
+
+ALTER TABLE public.orders ADD CONSTRAINT orders_farm_id_fkey
+  FOREIGN KEY (farm_id) REFERENCES public.farm_profiles(user_id) ON DELETE RESTRICT;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_farm_id_fkey
+  FOREIGN KEY (farm_id) REFERENCES public.farm_profiles(user_id) ON DELETE RESTRICT;
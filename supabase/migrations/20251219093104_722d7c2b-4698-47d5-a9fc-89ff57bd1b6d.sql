@@ -0,0 +1,21 @@
+-- The unit is part of what a buyer ordered (3 kg vs 3 bunches), so it is
+-- locked along with price and quantity while orders are open
+CREATE OR REPLACE FUNCTION public.lock_product_terms()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.price_per_unit IS DISTINCT FROM OLD.price_per_unit
+      OR NEW.unit IS DISTINCT FROM OLD.unit
+      OR NEW.available_quantity IS DISTINCT FROM OLD.available_quantity)
+    AND auth.uid() = OLD.farm_id
+    AND current_setting('app.stock_update', true) IS DISTINCT FROM 'on'
+    AND public.product_open_order_count(OLD.id) > 0 THEN
+    RAISE EXCEPTION 'Price, unit and quantity cannot be changed while this product has open orders';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- No district or subdistrict reference data was ever loaded, so the pickers
+-- built on these tables only ever offered free text and the postcode check
+-- never matched anything. District and subdistrict stay free text on
+-- addresses; provinces keep their seeded table.
+DROP TRIGGER validate_address_postcode ON public.addresses;
+DROP FUNCTION public.validate_address_postcode();
+
+DROP TABLE public.thai_subdistricts;
+DROP TABLE public.thai_districts;
@@ -0,0 +1,56 @@
+-- A buyer cancelling after sending a slip may be owed a refund even before the
+-- farm has checked it, so the farm is told in that case too
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _farm_name TEXT;
+  _message TEXT;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() IS NULL OR auth.uid() NOT IN (_order.user_id, _order.farm_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'A % order can no longer be cancelled', _order.status;
+  END IF;
+
+  IF COALESCE(TRIM(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason';
+  END IF;
+
+  PERFORM set_config('app.order_cancel', 'on', true);
+  UPDATE public.orders
+  SET status = 'cancelled', cancellation_reason = TRIM(_reason)
+  WHERE id = _order.id
+  RETURNING * INTO _order;
+
+  SELECT farm_name INTO _farm_name FROM public.farm_profiles WHERE user_id = _order.farm_id;
+
+  IF auth.uid() = _order.farm_id THEN
+    _message := COALESCE(_farm_name, 'The farm') || ' rejected your order: ' || _order.cancellation_reason;
+
+    IF _order.payment_status IN ('awaiting_verification', 'paid') THEN
+      _message := _message || '. The farm will refund your payment.';
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+    VALUES (_order.user_id, 'Order Rejected', _message, 'order_rejected', _order.id);
+  ELSE
+    _message := 'The buyer cancelled their order: ' || _order.cancellation_reason;
+
+    IF _order.payment_status IN ('awaiting_verification', 'paid') THEN
+      _message := _message || '. They had already paid, so please check and refund their payment.';
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type, related_order_id)
+    VALUES (_order.farm_id, 'Order Cancelled', _message, 'order_cancelled', _order.id);
+  END IF;
+END;
+$$;
@@ -0,0 +1,24 @@
+-- The scheduler job no longer has a project URL baked in. Each project stores
+-- its own base URL in Vault next to the service role key:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+-- Databases without both secrets (local, preview branches) run the job but
+-- send nothing. Scheduling under the same name replaces the old job.
+SELECT cron.schedule(
+  'order-scheduler',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := project.url || '/functions/v1/order-scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || project.service_role_key
+    ),
+    body := '{}'::JSONB
+  )
+  FROM (
+    SELECT RTRIM(u.decrypted_secret, '/') AS url, k.decrypted_secret AS service_role_key
+    FROM vault.decrypted_secrets u, vault.decrypted_secrets k
+    WHERE u.name = 'project_url' AND k.name = 'service_role_key'
+  ) AS project
+  $$
+);
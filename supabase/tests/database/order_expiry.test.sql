@@ -0,0 +1,179 @@
+-- Expiry rules replayed against fixed clocks with public.run_order_expiry.
+-- Run against a local database with `npm run test:db` (supabase test db).
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SET LOCAL search_path = public, extensions;
+SET LOCAL timezone = 'UTC';
+
+SELECT plan(16);
+
+-- Known windows regardless of what the seeded global rules say today
+UPDATE public.order_expiry_rules SET window_hours = 48, reminder_hours = '{24, 6}', is_active = TRUE
+WHERE farm_id IS NULL AND kind = 'farm_confirm';
+UPDATE public.order_expiry_rules SET window_hours = 7 * 24, reminder_hours = '{48}', is_active = TRUE
+WHERE farm_id IS NULL AND kind = 'pickup_window';
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', 'buyer@example.test'),
+  ('00000000-0000-0000-0000-0000000000f1', 'farm@example.test'),
+  ('00000000-0000-0000-0000-0000000000f2', 'exempt-farm@example.test');
+
+INSERT INTO public.farm_profiles (user_id, farm_name, farm_location) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', 'Test Farm', 'Chachoengsao'),
+  ('00000000-0000-0000-0000-0000000000f2', 'Exempt Farm', 'Chachoengsao');
+
+-- A farm's own inactive rule exempts it from the global one
+INSERT INTO public.order_expiry_rules (kind, farm_id, window_hours, is_active)
+VALUES ('farm_confirm', '00000000-0000-0000-0000-0000000000f2', 48, FALSE);
+
+INSERT INTO public.products (id, farm_id, name, product_type, price_per_unit, harvest_date, available_quantity) VALUES
+  -- Harvested on the day the orders are placed: the pickup window closes 7 days later
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000f1', 'Nam Dok Mai', 'fruit', 80, '2025-06-01', 10),
+  -- Harvested a month later, so only the confirmation deadline matters
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000f1', 'Mahachanok', 'fruit', 90, '2025-07-01', 10),
+  ('00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-0000000000f2', 'Khiew Sawoey', 'fruit', 70, '2025-07-01', 10);
+
+-- A: pending, must be confirmed within 48 hours
+-- B: confirmed, must ship within the pickup window
+-- C: pending at the exempt farm for far longer than 48 hours
+INSERT INTO public.orders (id, checkout_id, user_id, farm_id, status, total_price, delivery_address, created_at) VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000b1',
+   '00000000-0000-0000-0000-0000000000f1', 'pending', 90, 'Test address', '2025-06-01 00:00+00'),
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000b1',
+   '00000000-0000-0000-0000-0000000000f1', 'confirmed', 80, 'Test address', '2025-06-01 00:00+00'),
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-0000000000b1',
+   '00000000-0000-0000-0000-0000000000f2', 'pending', 70, 'Test address', '2025-05-20 00:00+00');
+
+INSERT INTO public.order_items (order_id, product_id, quantity, unit_price, subtotal) VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000c2', 1, 90, 90),
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000c1', 1, 80, 80),
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-0000000000c3', 1, 70, 70);
+
+CREATE TEMP TABLE run (label TEXT PRIMARY KEY, result JSONB);
+
+-- 30 hours in: A's 24-hour reminder is due
+INSERT INTO run SELECT 'dry 30h', public.run_order_expiry(_dry_run := TRUE, _now := '2025-06-02 06:00+00');
+
+SELECT is(
+  (SELECT result->'reminded' FROM run WHERE label = 'dry 30h'),
+  jsonb_build_array(jsonb_build_object(
+    'order_id', '00000000-0000-0000-0000-00000000000a', 'kind', 'farm_confirm',
+    'deadline', '2025-06-03T00:00:00+00:00'::TIMESTAMPTZ, 'hours_before', 24
+  )),
+  'a dry run reports the reminder that is due'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.order_deadline_notices),
+  0,
+  'a dry run records nothing'
+);
+
+INSERT INTO run SELECT '30h', public.run_order_expiry(_now := '2025-06-02 06:00+00');
+
+SELECT is(
+  (SELECT jsonb_array_length(result->'reminded') FROM run WHERE label = '30h'),
+  1,
+  'the due reminder is sent'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.notifications
+   WHERE related_order_id = '00000000-0000-0000-0000-00000000000a' AND type = 'order_deadline_reminder'
+     AND user_id = '00000000-0000-0000-0000-0000000000f1'),
+  1,
+  'the farm is told to confirm'
+);
+
+INSERT INTO run SELECT '31h', public.run_order_expiry(_now := '2025-06-02 07:00+00');
+
+SELECT is(
+  (SELECT result->'reminded' FROM run WHERE label = '31h'),
+  '[]'::JSONB,
+  'a reminder goes out once however often the scheduler runs'
+);
+
+-- 43 hours in: the 6-hour reminder
+INSERT INTO run SELECT '43h', public.run_order_expiry(_now := '2025-06-02 19:00+00');
+
+SELECT is(
+  (SELECT (result->'reminded'->0->>'hours_before')::INTEGER FROM run WHERE label = '43h'),
+  6,
+  'the next reminder offset follows'
+);
+
+-- 49 hours in: A missed its confirmation deadline
+INSERT INTO run SELECT '49h', public.run_order_expiry(_now := '2025-06-03 01:00+00');
+
+SELECT is(
+  (SELECT result->'cancelled'->0->>'order_id' FROM run WHERE label = '49h'),
+  '00000000-0000-0000-0000-00000000000a',
+  'an order past its confirmation deadline is cancelled'
+);
+
+SELECT is(
+  (SELECT jsonb_array_length(result->'cancelled') FROM run WHERE label = '49h'),
+  1,
+  'nothing else is cancelled'
+);
+
+SELECT results_eq(
+  $$SELECT status::TEXT, cancellation_reason FROM public.orders WHERE id = '00000000-0000-0000-0000-00000000000a'$$,
+  $$VALUES ('cancelled', 'Farm did not confirm within 48 hours')$$,
+  'the cancellation gives the rule that was broken'
+);
+
+SELECT is(
+  (SELECT status::TEXT FROM public.orders WHERE id = '00000000-0000-0000-0000-00000000000c'),
+  'pending',
+  'a farm with its own inactive rule is exempt'
+);
+
+SELECT is(
+  (SELECT status::TEXT FROM public.orders WHERE id = '00000000-0000-0000-0000-00000000000b'),
+  'confirmed',
+  'a confirmed order is not held to the confirmation deadline'
+);
+
+-- 5 days after harvest: B's pickup window closes in 48 hours
+INSERT INTO run SELECT '5d', public.run_order_expiry(_now := '2025-06-06 01:00+00');
+
+SELECT results_eq(
+  $$SELECT user_id FROM public.notifications
+    WHERE related_order_id = '00000000-0000-0000-0000-00000000000b' AND type = 'order_deadline_reminder'
+    ORDER BY user_id$$,
+  $$VALUES ('00000000-0000-0000-0000-0000000000b1'::UUID), ('00000000-0000-0000-0000-0000000000f1'::UUID)$$,
+  'both the farm and the buyer are reminded before the pickup window closes'
+);
+
+-- A dry run may look further ahead than the real clock without acting
+INSERT INTO run SELECT 'dry 8d', public.run_order_expiry(_dry_run := TRUE, _now := '2025-06-09 00:00+00');
+
+SELECT is(
+  (SELECT result->'cancelled'->0->>'order_id' FROM run WHERE label = 'dry 8d'),
+  '00000000-0000-0000-0000-00000000000b',
+  'a dry run reports the order that would expire'
+);
+
+SELECT is(
+  (SELECT status::TEXT FROM public.orders WHERE id = '00000000-0000-0000-0000-00000000000b'),
+  'confirmed',
+  'a dry run cancels nothing'
+);
+
+INSERT INTO run SELECT '8d', public.run_order_expiry(_now := '2025-06-09 00:00+00');
+
+SELECT results_eq(
+  $$SELECT status::TEXT, cancellation_reason FROM public.orders WHERE id = '00000000-0000-0000-0000-00000000000b'$$,
+  $$VALUES ('cancelled', 'Auto-cancelled: Exceeded 7 days after harvest date')$$,
+  'an order past its pickup window is cancelled'
+);
+
+SELECT is(
+  (SELECT available_quantity FROM public.products WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  11,
+  'stock of an expired order is restored'
+);
+
+SELECT * FROM finish();
+ROLLBACK;